@@ -0,0 +1,22 @@
+/** @type {import('jest').Config} */
+module.exports = {
+	testEnvironment: 'node',
+	roots: ['<rootDir>/tests'],
+	testMatch: ['**/*.test.ts'],
+	setupFilesAfterEnv: ['<rootDir>/tests/setup.ts'],
+	// obsidian 包只有类型声明，测试中使用模拟实现
+	moduleNameMapper: {
+		'^obsidian$': '<rootDir>/tests/__mocks__/obsidian.ts'
+	},
+	transform: {
+		'^.+\\.ts$': ['ts-jest', {
+			tsconfig: {
+				isolatedModules: true,
+				module: 'commonjs',
+				target: 'ES2019',
+				esModuleInterop: true,
+				strictNullChecks: true
+			}
+		}]
+	}
+};
@@ -0,0 +1,96 @@
+import { RateLimitInfo } from './utils/request-scheduler';
+import { RemoteSnippetStore, RemoteFile, RemoteRevision, FileChange } from './remote-snippet-store';
+
+/**
+ * 子目录存储 - 把另一个存储中的某个目录（如 dotfiles 仓库中的 obsidian/snippets）当作根目录
+ * 同步逻辑看到的路径都相对于该目录，实际请求时再加上目录前缀
+ */
+export class BasePathSnippetStore implements RemoteSnippetStore {
+    readonly displayName: string;
+    private inner: RemoteSnippetStore;
+    private basePath: string; // 不含首尾斜杠
+
+    computeVersion?: (content: string) => string;
+    getRateLimit?: () => RateLimitInfo | null;
+    isRateLimited?: () => boolean;
+    onRateLimitChange?: (listener: (info: RateLimitInfo) => void) => () => void;
+
+    constructor(inner: RemoteSnippetStore, basePath: string) {
+        this.inner = inner;
+        this.basePath = BasePathSnippetStore.normalizePath(basePath);
+        this.displayName = inner.displayName;
+
+        // 可选功能只在被包装的存储支持时提供
+        if (inner.computeVersion) {
+            this.computeVersion = content => inner.computeVersion!(content);
+        }
+        if (inner.getRateLimit) {
+            this.getRateLimit = () => inner.getRateLimit!();
+        }
+        if (inner.isRateLimited) {
+            this.isRateLimited = () => inner.isRateLimited!();
+        }
+        if (inner.onRateLimitChange) {
+            this.onRateLimitChange = listener => inner.onRateLimitChange!(listener);
+        }
+    }
+
+    async authenticate(): Promise<boolean> {
+        return this.inner.authenticate();
+    }
+
+    /**
+     * 递归列出目录中的 .css 文件，返回的路径去掉目录前缀
+     */
+    async listFiles(path = '', includeLastModified = false): Promise<RemoteFile[]> {
+        const files = await this.inner.listFiles(this.toRemotePath(path), includeLastModified);
+        const prefix = `${this.basePath}/`;
+        return files
+            .filter(file => file.path.startsWith(prefix))
+            .map(file => ({ ...file, path: file.path.slice(prefix.length) }));
+    }
+
+    async downloadFile(path: string): Promise<string> {
+        return this.inner.downloadFile(this.toRemotePath(path));
+    }
+
+    async uploadFile(path: string, content: string, message?: string): Promise<boolean> {
+        return this.inner.uploadFile(this.toRemotePath(path), content, message);
+    }
+
+    async deleteFile(path: string, message?: string): Promise<boolean> {
+        return this.inner.deleteFile(this.toRemotePath(path), message);
+    }
+
+    async renameFile(oldPath: string, newPath: string, content: string, message?: string): Promise<boolean> {
+        return this.inner.renameFile(this.toRemotePath(oldPath), this.toRemotePath(newPath), content, message);
+    }
+
+    async commitChanges(changes: FileChange[], message?: string): Promise<string> {
+        return this.inner.commitChanges(changes.map(change => ({ ...change, path: this.toRemotePath(change.path) })), message);
+    }
+
+    async getHistory(path: string, limit?: number): Promise<RemoteRevision[]> {
+        return this.inner.getHistory(this.toRemotePath(path), limit);
+    }
+
+    async downloadRevision(path: string, revisionId: string): Promise<string> {
+        return this.inner.downloadRevision(this.toRemotePath(path), revisionId);
+    }
+
+    private toRemotePath(path: string): string {
+        const relativePath = BasePathSnippetStore.normalizePath(path);
+        return relativePath ? `${this.basePath}/${relativePath}` : this.basePath;
+    }
+
+    /**
+     * 去掉首尾斜杠和多余的斜杠，拒绝 . 和 .. 路径段
+     */
+    static normalizePath(path: string): string {
+        const segments = (path || '').split('/').filter(segment => segment.length > 0);
+        if (segments.some(segment => segment === '.' || segment === '..')) {
+            throw new Error(`路径格式不正确: ${path}`);
+        }
+        return segments.join('/');
+    }
+}
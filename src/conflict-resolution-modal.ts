@@ -0,0 +1,278 @@
+import { Notice } from 'obsidian';
+import { SyncManager } from './sync-manager';
+import { CSSMergeEngine, DiffSegment } from './utils/css-merge';
+
+/**
+ * 冲突对比与合并窗口 - 并排显示本地和云端版本，按差异块选择保留哪一侧
+ */
+export class ConflictResolutionModal {
+    private syncManager: SyncManager;
+    private filename: string;
+    private onClose: (resolved: boolean) => void;
+    private overlay: HTMLElement | null = null;
+    private segments: DiffSegment[] = [];
+    private choices: Map<number, 'local' | 'cloud'> = new Map();
+    private resultTextarea: HTMLTextAreaElement | null = null;
+    private escapeHandler: ((e: KeyboardEvent) => void) | null = null;
+
+    constructor(syncManager: SyncManager, filename: string, onClose: (resolved: boolean) => void) {
+        this.syncManager = syncManager;
+        this.filename = filename;
+        this.onClose = onClose;
+    }
+
+    /**
+     * 加载三个版本并打开窗口
+     */
+    async open(): Promise<void> {
+        const loadingNotice = new Notice(`🔄 正在加载 ${this.filename} 的本地和云端版本...`, 0);
+        try {
+            const versions = await this.syncManager.getConflictVersions(this.filename);
+            loadingNotice.hide();
+
+            this.segments = CSSMergeEngine.diffLines(versions.local, versions.cloud);
+            this.segments.forEach((segment, index) => {
+                if (segment.kind === 'changed') {
+                    this.choices.set(index, 'local');
+                }
+            });
+
+            this.render();
+        } catch (error) {
+            loadingNotice.hide();
+            new Notice(`❌ 无法加载冲突文件: ${error instanceof Error ? error.message : '未知错误'}`);
+            this.onClose(false);
+        }
+    }
+
+    /**
+     * 构建窗口内容
+     */
+    private render(): void {
+        const overlay = document.body.createDiv({ cls: 'css-snippets-modal-overlay' });
+        this.overlay = overlay;
+
+        const modal = overlay.createDiv({ cls: 'css-snippets-modal css-snippets-merge-modal' });
+        modal.createEl('h3', { text: `解决冲突：${this.filename}`, cls: 'css-snippets-modal-title' });
+
+        const hunkCount = this.choices.size;
+        modal.createEl('p', {
+            text: hunkCount > 0
+                ? `共 ${hunkCount} 处差异，请为每处差异选择保留本地或云端的内容`
+                : '本地和云端内容一致',
+            cls: 'css-snippets-merge-summary'
+        });
+
+        // 批量操作
+        const toolbar = modal.createDiv({ cls: 'css-snippets-merge-toolbar' });
+        const allLocalBtn = toolbar.createEl('button', { text: '全部采用本地', cls: 'css-snippets-btn' });
+        allLocalBtn.onclick = () => this.chooseAll('local');
+        const allCloudBtn = toolbar.createEl('button', { text: '全部采用云端', cls: 'css-snippets-btn' });
+        allCloudBtn.onclick = () => this.chooseAll('cloud');
+        const autoMergeBtn = toolbar.createEl('button', { text: '自动合并', cls: 'css-snippets-btn' });
+        autoMergeBtn.onclick = async () => {
+            await this.applyAutoMerge();
+        };
+
+        // 并排对比
+        const header = modal.createDiv({ cls: 'css-snippets-merge-columns-header' });
+        header.createSpan({ text: '本地版本' });
+        header.createSpan({ text: '云端版本' });
+
+        const diffContainer = modal.createDiv({ cls: 'css-snippets-merge-diff' });
+        this.segments.forEach((segment, index) => {
+            this.renderSegment(diffContainer, segment, index);
+        });
+
+        // 合并结果（允许手动修改）
+        modal.createEl('label', { text: '合并结果（可直接编辑）:', cls: 'css-snippets-merge-result-label' });
+        this.resultTextarea = modal.createEl('textarea', { cls: 'css-snippets-merge-result' });
+        this.resultTextarea.rows = 10;
+        this.updateResult();
+
+        const buttons = modal.createDiv({ cls: 'css-snippets-modal-buttons' });
+        const cancelBtn = buttons.createEl('button', {
+            text: '取消',
+            cls: 'css-snippets-modal-btn css-snippets-modal-btn-cancel'
+        });
+        cancelBtn.onclick = () => this.close(false);
+
+        const saveBtn = buttons.createEl('button', {
+            text: '保存并同步',
+            cls: 'css-snippets-modal-btn css-snippets-modal-btn-primary'
+        });
+        saveBtn.onclick = async () => {
+            saveBtn.disabled = true;
+            const saved = await this.save();
+            saveBtn.disabled = false;
+            if (saved) {
+                this.close(true);
+            }
+        };
+
+        // 点击遮罩层关闭
+        overlay.onclick = (e) => {
+            if (e.target === overlay) {
+                this.close(false);
+            }
+        };
+
+        // ESC键关闭
+        this.escapeHandler = (e: KeyboardEvent) => {
+            if (e.key === 'Escape') {
+                this.close(false);
+            }
+        };
+        document.addEventListener('keydown', this.escapeHandler);
+    }
+
+    /**
+     * 渲染单个相同或差异段落
+     */
+    private renderSegment(container: HTMLElement, segment: DiffSegment, index: number): void {
+        const row = container.createDiv({ cls: `css-snippets-merge-row ${segment.kind}` });
+        const localCol = row.createDiv({ cls: 'css-snippets-merge-side local' });
+        const cloudCol = row.createDiv({ cls: 'css-snippets-merge-side cloud' });
+
+        this.renderLines(localCol, segment.local, segment.kind === 'changed');
+        this.renderLines(cloudCol, segment.cloud, segment.kind === 'changed');
+
+        if (segment.kind !== 'changed') {
+            return;
+        }
+
+        const updateSelection = () => {
+            const choice = this.choices.get(index);
+            localCol.toggleClass('selected', choice === 'local');
+            cloudCol.toggleClass('selected', choice === 'cloud');
+        };
+
+        const actions = row.createDiv({ cls: 'css-snippets-merge-hunk-actions' });
+        const useLocalBtn = actions.createEl('button', { text: '← 采用本地', cls: 'css-snippets-btn' });
+        useLocalBtn.onclick = () => {
+            this.choices.set(index, 'local');
+            updateSelection();
+            this.updateResult();
+        };
+        const useCloudBtn = actions.createEl('button', { text: '采用云端 →', cls: 'css-snippets-btn' });
+        useCloudBtn.onclick = () => {
+            this.choices.set(index, 'cloud');
+            updateSelection();
+            this.updateResult();
+        };
+
+        updateSelection();
+    }
+
+    /**
+     * 渲染代码行，差异行高亮显示
+     */
+    private renderLines(container: HTMLElement, lines: string[], highlighted: boolean): void {
+        if (lines.length === 0) {
+            container.createDiv({ text: '（无内容）', cls: 'css-snippets-merge-line empty' });
+            return;
+        }
+        for (const line of lines) {
+            container.createDiv({
+                text: line || ' ',
+                cls: `css-snippets-merge-line${highlighted ? ' changed' : ''}`
+            });
+        }
+    }
+
+    /**
+     * 所有差异统一采用某一侧
+     */
+    private chooseAll(side: 'local' | 'cloud'): void {
+        for (const index of this.choices.keys()) {
+            this.choices.set(index, side);
+        }
+        this.overlay?.querySelectorAll('.css-snippets-merge-row.changed').forEach(row => {
+            row.querySelector('.css-snippets-merge-side.local')?.toggleClass('selected', side === 'local');
+            row.querySelector('.css-snippets-merge-side.cloud')?.toggleClass('selected', side === 'cloud');
+        });
+        this.updateResult();
+    }
+
+    /**
+     * 使用三方合并引擎自动合并，结果填入编辑框
+     */
+    private async applyAutoMerge(): Promise<void> {
+        try {
+            const mergeResult = await this.syncManager.previewMerge(this.filename);
+            if (this.resultTextarea) {
+                this.resultTextarea.value = mergeResult.content;
+            }
+            if (mergeResult.clean) {
+                new Notice('✅ 自动合并成功，没有重叠的修改');
+            } else {
+                const selectors = mergeResult.conflicts
+                    .map(conflict => conflict.selector)
+                    .filter((selector): selector is string => !!selector);
+                const location = selectors.length > 0 ? `（${Array.from(new Set(selectors)).join(', ')}）` : '';
+                new Notice(`⚠️ 有 ${mergeResult.conflicts.length} 处重叠修改${location}，请在合并结果中处理冲突标记`);
+            }
+        } catch (error) {
+            new Notice(`❌ 自动合并失败: ${error instanceof Error ? error.message : '未知错误'}`);
+        }
+    }
+
+    /**
+     * 根据每个差异块的选择生成合并结果
+     */
+    private updateResult(): void {
+        if (!this.resultTextarea) {
+            return;
+        }
+        const lines: string[] = [];
+        this.segments.forEach((segment, index) => {
+            if (segment.kind === 'equal') {
+                lines.push(...segment.local);
+            } else {
+                lines.push(...(this.choices.get(index) === 'cloud' ? segment.cloud : segment.local));
+            }
+        });
+        this.resultTextarea.value = lines.join('\n');
+    }
+
+    /**
+     * 保存合并结果到本地和云端
+     */
+    private async save(): Promise<boolean> {
+        const content = this.resultTextarea ? this.resultTextarea.value : '';
+        const saveNotice = new Notice(`🔄 正在保存 ${this.filename} 的合并结果...`, 0);
+        try {
+            const success = await this.syncManager.saveResolvedContent(this.filename, content);
+            saveNotice.hide();
+            if (success) {
+                new Notice(`✅ ${this.filename} 冲突已解决，本地和云端已更新`);
+            } else {
+                new Notice(`❌ ${this.filename} 上传到云端失败`);
+            }
+            return success;
+        } catch (error) {
+            saveNotice.hide();
+            new Notice(`❌ 保存失败: ${error instanceof Error ? error.message : '未知错误'}`);
+            return false;
+        }
+    }
+
+    /**
+     * 关闭窗口
+     */
+    private close(resolved: boolean): void {
+        if (this.escapeHandler) {
+            document.removeEventListener('keydown', this.escapeHandler);
+            this.escapeHandler = null;
+        }
+
+        const overlay = this.overlay;
+        if (overlay) {
+            this.overlay = null;
+            overlay.classList.add('closing');
+            setTimeout(() => overlay.remove(), 150);
+        }
+
+        this.onClose(resolved);
+    }
+}
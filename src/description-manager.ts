@@ -41,6 +41,24 @@ export class DescriptionManager {
         await this.saveCallback();
     }
 
+    /**
+     * 片段重命名后迁移描述，新名称已有描述时保留原有描述
+     */
+    async moveDescription(oldFilename: string, newFilename: string): Promise<void> {
+        const oldName = this.normalizeFilename(oldFilename);
+        const newName = this.normalizeFilename(newFilename);
+        const description = this.settings.snippetDescriptions[oldName];
+
+        if (!description || oldName === newName) {
+            return;
+        }
+        if (!this.settings.snippetDescriptions[newName]) {
+            this.settings.snippetDescriptions[newName] = description;
+        }
+        delete this.settings.snippetDescriptions[oldName];
+        await this.saveCallback();
+    }
+
     /**
      * 获取所有有描述的片段
      */
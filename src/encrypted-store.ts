@@ -0,0 +1,217 @@
+import { RateLimitInfo } from './utils/request-scheduler';
+import { CacheManager, CacheOptions } from './utils/cache-manager';
+import { CryptoUtils } from './utils/crypto-utils';
+import { HashUtils } from './utils/hash-utils';
+import { RemoteSnippetStore, RemoteFile, RemoteRevision, FileChange } from './remote-snippet-store';
+
+/**
+ * 清单条目：云端密文版本对应的明文版本
+ */
+interface ManifestEntry {
+    remoteSha: string; // 被包装存储返回的版本标识（密文的版本）
+    version: string; // 明文内容的 git blob SHA
+}
+
+/**
+ * 端到端加密存储 - 上传前用库中保存的密钥加密片段内容，下载后解密，云端只保存密文
+ * 每次加密使用随机 IV，密文版本无法用于比较内容，因此在本地清单中记录密文版本对应的明文版本，
+ * listFiles 返回明文版本，增量同步通过 computeVersion 比较明文，内容相同时无需下载
+ * 没有密钥时（如 Token 尚未解锁）拒绝读写，不会退回明文上传或把密文当作片段下载
+ */
+export class EncryptedSnippetStore implements RemoteSnippetStore {
+    static readonly MANIFEST_CACHE_ID = 'encrypted-manifest';
+    // 清单由密文版本校验，只需控制条目数量
+    private static readonly MANIFEST_OPTIONS: CacheOptions = {
+        expiryMs: 365 * 24 * 60 * 60 * 1000,
+        maxItems: 2000
+    };
+    // 加密文件的第一行，用于识别加密内容；启用加密前上传的明文文件原样返回
+    private static readonly HEADER = '/* css-snippets-manager: encrypted */\n';
+
+    readonly displayName: string;
+    private inner: RemoteSnippetStore;
+    private keyValue: string;
+    private key: Promise<CryptoKey> | null = null;
+    private listedShas = new Map<string, string>(); // 最近一次列出的密文版本，下载后用于更新清单
+
+    getRateLimit?: () => RateLimitInfo | null;
+    isRateLimited?: () => boolean;
+    onRateLimitChange?: (listener: (info: RateLimitInfo) => void) => () => void;
+
+    constructor(inner: RemoteSnippetStore, key: string) {
+        this.inner = inner;
+        this.keyValue = key;
+        this.displayName = inner.displayName;
+
+        // 可选功能只在被包装的存储支持时提供
+        if (inner.getRateLimit) {
+            this.getRateLimit = () => inner.getRateLimit!();
+        }
+        if (inner.isRateLimited) {
+            this.isRateLimited = () => inner.isRateLimited!();
+        }
+        if (inner.onRateLimitChange) {
+            this.onRateLimitChange = listener => inner.onRateLimitChange!(listener);
+        }
+    }
+
+    async authenticate(): Promise<boolean> {
+        return this.inner.authenticate();
+    }
+
+    /**
+     * 列出文件，清单中有记录的文件返回明文版本，没有记录的保留密文版本（比较时会下载解密）
+     */
+    async listFiles(path = '', includeLastModified = false): Promise<RemoteFile[]> {
+        this.requireKey();
+        const files = await this.inner.listFiles(path, includeLastModified);
+        return files.map(file => {
+            this.listedShas.set(file.path, file.sha);
+            const entry = this.getManifestEntry(file.path);
+            return entry && entry.remoteSha === file.sha ? { ...file, sha: entry.version } : file;
+        });
+    }
+
+    /**
+     * 明文版本，与 listFiles 返回的版本格式相同
+     */
+    computeVersion(content: string): string {
+        return HashUtils.calculateGitBlobSha(content);
+    }
+
+    async downloadFile(path: string): Promise<string> {
+        this.requireKey();
+        const content = await this.decrypt(await this.inner.downloadFile(path));
+
+        // 解密后记录列出时的密文版本对应的明文版本，下次比较时无需下载
+        const remoteSha = this.listedShas.get(path);
+        if (remoteSha) {
+            this.setManifestEntry(path, remoteSha, content);
+        }
+        return content;
+    }
+
+    async uploadFile(path: string, content: string, message?: string): Promise<boolean> {
+        const encrypted = await this.encrypt(content);
+        const success = await this.inner.uploadFile(path, encrypted, message);
+        if (success) {
+            this.recordUpload(path, encrypted, content);
+        }
+        return success;
+    }
+
+    async deleteFile(path: string, message?: string): Promise<boolean> {
+        this.requireKey();
+        const success = await this.inner.deleteFile(path, message);
+        if (success) {
+            this.deleteManifestEntry(path);
+        }
+        return success;
+    }
+
+    async renameFile(oldPath: string, newPath: string, content: string, message?: string): Promise<boolean> {
+        const encrypted = await this.encrypt(content);
+        const success = await this.inner.renameFile(oldPath, newPath, encrypted, message);
+        if (success) {
+            this.deleteManifestEntry(oldPath);
+            this.recordUpload(newPath, encrypted, content);
+        }
+        return success;
+    }
+
+    async commitChanges(changes: FileChange[], message?: string): Promise<string> {
+        const encryptedChanges: FileChange[] = [];
+        for (const change of changes) {
+            encryptedChanges.push(change.content !== undefined
+                ? { ...change, content: await this.encrypt(change.content) }
+                : change);
+        }
+
+        const version = await this.inner.commitChanges(encryptedChanges, message);
+        encryptedChanges.forEach((change, index) => {
+            if (change.action === 'delete') {
+                this.deleteManifestEntry(change.path);
+            } else if (change.content !== undefined) {
+                this.recordUpload(change.path, change.content, changes[index].content!);
+            }
+        });
+        return version;
+    }
+
+    async getHistory(path: string, limit?: number): Promise<RemoteRevision[]> {
+        this.requireKey();
+        return this.inner.getHistory(path, limit);
+    }
+
+    async downloadRevision(path: string, revisionId: string): Promise<string> {
+        this.requireKey();
+        return this.decrypt(await this.inner.downloadRevision(path, revisionId));
+    }
+
+    private async encrypt(content: string): Promise<string> {
+        return `${EncryptedSnippetStore.HEADER}${await CryptoUtils.encrypt(await this.getKey(), content)}`;
+    }
+
+    private async decrypt(content: string): Promise<string> {
+        if (!content.startsWith(EncryptedSnippetStore.HEADER)) {
+            return content;
+        }
+        try {
+            return await CryptoUtils.decrypt(await this.getKey(), content.slice(EncryptedSnippetStore.HEADER.length).trim());
+        } catch (error) {
+            console.error('Error decrypting snippet:', error);
+            throw new Error('无法解密云端片段，请检查加密密钥是否与上传时使用的一致');
+        }
+    }
+
+    private requireKey(): void {
+        if (!this.keyValue) {
+            throw new Error('已启用端到端加密但密钥不可用，请先解锁 Token 或导入加密密钥');
+        }
+    }
+
+    private getKey(): Promise<CryptoKey> {
+        this.requireKey();
+        if (!this.key) {
+            this.key = CryptoUtils.importKey(this.keyValue);
+        }
+        return this.key;
+    }
+
+    /**
+     * 上传后记录新密文的版本；被包装的存储无法在本地计算版本时删除旧记录，下次比较时下载一次
+     */
+    private recordUpload(path: string, encrypted: string, content: string): void {
+        const remoteSha = this.inner.computeVersion?.(encrypted);
+        if (remoteSha) {
+            this.setManifestEntry(path, remoteSha, content);
+        } else {
+            this.deleteManifestEntry(path);
+        }
+    }
+
+    private manifestKey(path: string): string {
+        return `${this.inner.displayName}:${path}`;
+    }
+
+    private getManifestEntry(path: string): ManifestEntry | null {
+        return CacheManager.getInstance().get<ManifestEntry>(
+            EncryptedSnippetStore.MANIFEST_CACHE_ID,
+            this.manifestKey(path),
+            EncryptedSnippetStore.MANIFEST_OPTIONS
+        );
+    }
+
+    private setManifestEntry(path: string, remoteSha: string, content: string): void {
+        CacheManager.getInstance().set<ManifestEntry>(
+            EncryptedSnippetStore.MANIFEST_CACHE_ID,
+            this.manifestKey(path),
+            { remoteSha, version: this.computeVersion(content) },
+            EncryptedSnippetStore.MANIFEST_OPTIONS
+        );
+    }
+
+    private deleteManifestEntry(path: string): void {
+        CacheManager.getInstance().delete(EncryptedSnippetStore.MANIFEST_CACHE_ID, this.manifestKey(path));
+    }
+}
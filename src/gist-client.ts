@@ -0,0 +1,350 @@
+import { GitHubClient, TokenPermissionReport } from './github-client';
+import { RateLimitInfo } from './utils/request-scheduler';
+import { CacheManager, CacheOptions } from './utils/cache-manager';
+import { HashUtils } from './utils/hash-utils';
+import { RemoteSnippetStore, RemoteFile, RemoteRevision, FileChange, summarizeChanges } from './remote-snippet-store';
+
+interface GistFile {
+    filename: string;
+    size: number;
+    raw_url: string;
+    content?: string;
+    truncated?: boolean;
+}
+
+interface GistHistoryEntry {
+    version: string;
+    committed_at: string;
+    user?: { login: string };
+}
+
+/**
+ * Gist 存储 - 所有片段作为同一个 Gist 中的文件保存，Gist 的修订历史即片段的历史版本
+ * 使用 GitHub Token（需要 gist 权限），请求通过 GitHubClient 发送以共享调度、缓存和配额信息
+ */
+export class GistClient implements RemoteSnippetStore {
+    static readonly REVISION_CACHE_ID = 'gist-revisions';
+    // 修订一经创建不会改变，只需控制条目数量
+    private static readonly REVISION_CACHE_OPTIONS: CacheOptions = {
+        expiryMs: 365 * 24 * 60 * 60 * 1000,
+        maxItems: 500
+    };
+    // 查找历史版本和修改时间时最多回溯的修订数量
+    private static readonly MAX_HISTORY_SCAN = 100;
+
+    readonly displayName = 'GitHub Gist';
+    private github: GitHubClient;
+    private gistId: string;
+
+    constructor(github: GitHubClient, gistId: string) {
+        this.github = github;
+        this.gistId = gistId;
+    }
+
+    /**
+     * 验证 GitHub 连接
+     */
+    async authenticate(): Promise<boolean> {
+        return this.github.authenticate();
+    }
+
+    /**
+     * 检查 Token 是否具有读写 Gist 的权限
+     */
+    async inspectTokenPermissions(): Promise<TokenPermissionReport> {
+        return this.github.inspectTokenPermissions('gist');
+    }
+
+    /**
+     * 获取 Gist 中的 .css 文件列表（Gist 没有目录，path 参数只用于兼容接口）
+     */
+    async listFiles(path = '', includeLastModified = false): Promise<RemoteFile[]> {
+        try {
+            const gist = await this.getGist();
+            const files: RemoteFile[] = (Object.values(gist.files) as GistFile[])
+                .filter(file => file.filename.endsWith('.css'))
+                .map(file => ({
+                    name: file.filename,
+                    path: file.filename,
+                    sha: this.getFileVersion(file),
+                    size: file.size,
+                    url: file.raw_url
+                }));
+
+            if (includeLastModified && files.length > 0) {
+                const dates = await this.getLastModifiedDates(files, gist.history || []);
+                for (const file of files) {
+                    file.lastModified = dates[file.path] || 'Unknown';
+                }
+            }
+
+            return files;
+        } catch (error) {
+            console.error('Error listing files:', error);
+            throw error;
+        }
+    }
+
+    /**
+     * 下载文件的最新内容
+     */
+    async downloadFile(path: string): Promise<string> {
+        try {
+            const gist = await this.getGist();
+            const file: GistFile | undefined = gist.files[path];
+            if (!file) {
+                throw new Error(`File not found: ${path}`);
+            }
+            return await this.readFileContent(file);
+        } catch (error) {
+            console.error('Error downloading file:', error);
+            throw error;
+        }
+    }
+
+    /**
+     * 上传或更新文件
+     */
+    async uploadFile(path: string, content: string, message?: string): Promise<boolean> {
+        await this.commitChanges([{ path, action: 'add', content }], message);
+        return true;
+    }
+
+    /**
+     * 删除文件
+     */
+    async deleteFile(path: string, message?: string): Promise<boolean> {
+        await this.commitChanges([{ path, action: 'delete' }], message);
+        return true;
+    }
+
+    /**
+     * 重命名文件：Gist 支持在一次修改中直接改名
+     */
+    async renameFile(oldPath: string, newPath: string, content: string, message?: string): Promise<boolean> {
+        await this.updateGist({ [oldPath]: { filename: newPath, content } }, message || `Rename ${oldPath} to ${newPath}`);
+        return true;
+    }
+
+    /**
+     * 将多个修改作为一次 Gist 修订写入，返回新修订的版本号
+     * Gist 修订没有提交信息，message 只在控制台中记录
+     */
+    async commitChanges(changes: FileChange[], message?: string): Promise<string> {
+        if (changes.length === 0) {
+            throw new Error('No changes to commit');
+        }
+
+        const files: Record<string, { content: string } | null> = {};
+        for (const change of changes) {
+            // 文件内容设为 null 表示删除
+            files[change.path] = change.action === 'delete' ? null : { content: change.content || '' };
+        }
+        return this.updateGist(files, message || summarizeChanges(changes));
+    }
+
+    /**
+     * 获取文件的历史版本：在 Gist 的修订中找出该文件内容发生变化的修订
+     */
+    async getHistory(path: string, limit = 20): Promise<RemoteRevision[]> {
+        const gist = await this.getGist();
+        const history: GistHistoryEntry[] = (gist.history || []).slice(0, GistClient.MAX_HISTORY_SCAN);
+        const revisions: RemoteRevision[] = [];
+        // 从最新的修订向前回溯，内容相同的连续修订中最早的一个才是引入这个版本的修订
+        let current: { revision: RemoteRevision, sha: string } | null = null;
+
+        for (const entry of history) {
+            const sha = (await this.getRevisionVersions(entry.version))[path];
+            if (current && sha !== current.sha) {
+                revisions.push(current.revision);
+                current = null;
+                if (revisions.length >= limit) {
+                    return revisions;
+                }
+            }
+            if (sha) {
+                current = {
+                    revision: { id: entry.version, date: entry.committed_at, author: entry.user?.login },
+                    sha
+                };
+            }
+        }
+
+        if (current) {
+            revisions.push(current.revision);
+        }
+        return revisions;
+    }
+
+    /**
+     * 读取文件在某个修订中的内容
+     */
+    async downloadRevision(path: string, revisionId: string): Promise<string> {
+        const response = await this.github.makeRequest(`/gists/${this.gistId}/${revisionId}`);
+        if (!response.success) {
+            throw new Error(response.error || 'Failed to fetch revision');
+        }
+
+        const file: GistFile | undefined = response.data.files[path];
+        if (!file) {
+            throw new Error(`Revision not found: ${path}@${revisionId}`);
+        }
+        return this.readFileContent(file);
+    }
+
+    /**
+     * Gist 文件的 raw_url 中带有 git blob SHA，可直接与本地内容比较
+     */
+    computeVersion(content: string): string {
+        return HashUtils.calculateGitBlobSha(content);
+    }
+
+    /**
+     * 新建一个 Gist 用于保存片段，返回 Gist ID
+     * Gist 不能为空，先放入一个说明文件
+     */
+    async createGist(isPublic: boolean): Promise<string> {
+        const response = await this.github.makeRequest('/gists', 'POST', {
+            description: 'CSS Snippets',
+            public: isPublic,
+            files: {
+                'README.md': { content: '# CSS Snippets\n\nSynced by CSS Snippets Manager for Obsidian.\n' }
+            }
+        });
+        if (!response.success) {
+            throw new Error(response.error || 'Failed to create gist');
+        }
+        return response.data.id;
+    }
+
+    /**
+     * 从最新的修订向前回溯，计算每个文件当前内容最早出现的时间
+     */
+    private async getLastModifiedDates(files: RemoteFile[], history: GistHistoryEntry[]): Promise<Record<string, string>> {
+        const dates: Record<string, string> = {};
+        const pending = new Set(files.map(file => file.path));
+        const currentShas = new Map(files.map(file => [file.path, file.sha]));
+
+        for (const entry of history.slice(0, GistClient.MAX_HISTORY_SCAN)) {
+            if (pending.size === 0) {
+                break;
+            }
+            const versions = await this.getRevisionVersions(entry.version);
+            for (const path of Array.from(pending)) {
+                if (versions[path] === currentShas.get(path)) {
+                    dates[path] = entry.committed_at;
+                } else {
+                    pending.delete(path);
+                }
+            }
+        }
+
+        return dates;
+    }
+
+    /**
+     * 某个修订中每个文件的版本标识，按修订版本号缓存
+     */
+    private async getRevisionVersions(version: string): Promise<Record<string, string>> {
+        const cache = CacheManager.getInstance();
+        const cacheKey = `${this.gistId}:${version}`;
+        const cached = cache.get<Record<string, string>>(GistClient.REVISION_CACHE_ID, cacheKey, GistClient.REVISION_CACHE_OPTIONS);
+        if (cached) {
+            return cached;
+        }
+
+        const response = await this.github.makeRequest(`/gists/${this.gistId}/${version}`);
+        if (!response.success) {
+            throw new Error(response.error || 'Failed to fetch revision');
+        }
+
+        const versions: Record<string, string> = {};
+        for (const file of Object.values(response.data.files) as GistFile[]) {
+            versions[file.filename] = this.getFileVersion(file);
+        }
+        cache.set(GistClient.REVISION_CACHE_ID, cacheKey, versions, GistClient.REVISION_CACHE_OPTIONS);
+        return versions;
+    }
+
+    /**
+     * 从 raw_url（.../raw/<blob sha>/<文件名>）中取出 blob SHA，取不到时根据内容计算
+     */
+    private getFileVersion(file: GistFile): string {
+        const match = file.raw_url?.match(/\/raw\/([0-9a-f]{40})\//);
+        if (match) {
+            return match[1];
+        }
+        return file.content !== undefined && !file.truncated ? this.computeVersion(file.content) : '';
+    }
+
+    /**
+     * 读取文件内容，超过 1MB 的文件在 API 响应中会被截断，需要从 raw_url 下载
+     */
+    private async readFileContent(file: GistFile): Promise<string> {
+        // 文件大小限制 (10MB)
+        const MAX_FILE_SIZE = 10 * 1024 * 1024;
+        if (file.size > MAX_FILE_SIZE) {
+            throw new Error(`文件过大 (${Math.round(file.size / 1024 / 1024)}MB)，最大允许10MB`);
+        }
+
+        if (file.content !== undefined && !file.truncated) {
+            return file.content;
+        }
+
+        const response = await fetch(file.raw_url);
+        if (!response.ok) {
+            throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+        }
+        return response.text();
+    }
+
+    private async getGist(): Promise<any> {
+        if (!this.gistId) {
+            throw new Error('Gist ID 未配置');
+        }
+
+        const response = await this.github.makeRequest(`/gists/${this.gistId}`);
+        if (!response.success) {
+            throw new Error(response.error || 'Failed to fetch gist');
+        }
+        return response.data;
+    }
+
+    /**
+     * 修改 Gist 并返回新修订的版本号
+     */
+    private async updateGist(files: Record<string, { content?: string, filename?: string } | null>, message: string): Promise<string> {
+        try {
+            const response = await this.github.makeRequest(`/gists/${this.gistId}`, 'PATCH', { files });
+            if (!response.success) {
+                throw new Error(response.error || 'Failed to update gist');
+            }
+
+            const version = response.data.history?.[0]?.version;
+            console.log(`📦 已更新 Gist (${message.split('\n')[0]}): ${version}`);
+            return version;
+        } catch (error) {
+            console.error('Error updating gist:', error);
+            throw error;
+        }
+    }
+
+    getRateLimit(): RateLimitInfo | null {
+        return this.github.getRateLimit();
+    }
+
+    isRateLimited(): boolean {
+        return this.github.isRateLimited();
+    }
+
+    onRateLimitChange(listener: (info: RateLimitInfo) => void): () => void {
+        return this.github.onRateLimitChange(listener);
+    }
+
+    /**
+     * 更新 Gist ID（Token 随 GitHubClient 一起更新）
+     */
+    updateGistId(gistId: string) {
+        this.gistId = gistId;
+    }
+}
@@ -0,0 +1,460 @@
+import { SecurityUtils } from './security-utils';
+import { RequestScheduler, RateLimitInfo } from './utils/request-scheduler';
+import { CacheManager, CacheOptions } from './utils/cache-manager';
+import { HashUtils } from './utils/hash-utils';
+import { RemoteSnippetStore, RemoteFile, RemoteRevision, FileChange, summarizeChanges } from './remote-snippet-store';
+
+export interface GiteaApiResponse {
+    success: boolean;
+    data?: any;
+    error?: string;
+    status?: number;
+}
+
+interface GiteaTreeEntry {
+    path: string;
+    sha: string;
+    size: number;
+}
+
+/**
+ * Gitea / Forgejo 存储 - 通过 contents API 读写仓库中的片段
+ * 接口路径和 GitHub 相似，但认证方式、分页参数和批量修改接口都不同
+ */
+export class GiteaClient implements RemoteSnippetStore {
+    static readonly LAST_MODIFIED_CACHE_ID = 'gitea-last-modified';
+    // 按 blob sha 缓存，文件内容不变时最后修改时间也不变
+    private static readonly LAST_MODIFIED_CACHE_OPTIONS: CacheOptions = {
+        expiryMs: 30 * 24 * 60 * 60 * 1000,
+        maxItems: 2000
+    };
+
+    readonly displayName = 'Gitea / Forgejo';
+    private baseUrl: string;
+    private token: string;
+    private repoPath: string;
+    private scheduler = new RequestScheduler();
+
+    constructor(baseUrl: string, token: string, repoPath: string) {
+        this.baseUrl = baseUrl.replace(/\/+$/, '');
+        this.token = token;
+        this.repoPath = repoPath;
+    }
+
+    /**
+     * 验证 Gitea 连接
+     */
+    async authenticate(): Promise<boolean> {
+        try {
+            const response = await this.makeRequest('/user');
+            return response.success;
+        } catch (error) {
+            SecurityUtils.logError(error, 'Gitea authentication failed');
+            return false;
+        }
+    }
+
+    /**
+     * 获取仓库中的 .css 文件列表
+     * 递归 tree 已包含大小；只有界面需要显示修改时间时才逐个文件查询提交历史
+     */
+    async listFiles(path = '', includeLastModified = false): Promise<RemoteFile[]> {
+        try {
+            const branch = await this.getDefaultBranch();
+            const prefix = path ? `${path.replace(/\/+$/, '')}/` : '';
+            const files: RemoteFile[] = (await this.listTree(branch))
+                .filter(item => item.path.endsWith('.css') && item.path.startsWith(prefix))
+                .map(item => ({
+                    name: item.path.split('/').pop() || item.path,
+                    path: item.path,
+                    sha: item.sha,
+                    size: item.size,
+                    url: `${this.baseUrl}/${this.repoPath}/raw/branch/${encodeURIComponent(branch)}/${this.encodePath(item.path)}`
+                }));
+
+            if (includeLastModified) {
+                await Promise.all(files.map(async file => {
+                    file.lastModified = await this.getFileLastModified(file, branch);
+                }));
+            }
+
+            return files;
+        } catch (error) {
+            console.error('Error listing files:', error);
+            throw error;
+        }
+    }
+
+    /**
+     * 下载文件内容，指定 ref 时读取该提交中的版本
+     */
+    async downloadFile(path: string, ref?: string): Promise<string> {
+        try {
+            const branch = ref || await this.getDefaultBranch();
+            const url = `${this.repoEndpoint()}/raw/${this.encodePath(path)}?ref=${encodeURIComponent(branch)}`;
+            const response = await this.makeRequest(url, 'GET', undefined, 'text');
+
+            if (!response.success) {
+                throw new Error(response.error || 'Failed to download file');
+            }
+
+            // 文件大小限制 (10MB)
+            const MAX_FILE_SIZE = 10 * 1024 * 1024;
+            const content: string = response.data;
+            if (content.length > MAX_FILE_SIZE) {
+                throw new Error(`文件过大 (${Math.round(content.length / 1024 / 1024)}MB)，最大允许10MB`);
+            }
+            return content;
+        } catch (error) {
+            console.error('Error downloading file:', error);
+            throw error;
+        }
+    }
+
+    /**
+     * 上传或更新文件
+     */
+    async uploadFile(path: string, content: string, message?: string): Promise<boolean> {
+        await this.commitChanges([{ path, action: 'add', content }], message || `Update ${path}`);
+        return true;
+    }
+
+    /**
+     * 删除文件
+     */
+    async deleteFile(path: string, message?: string): Promise<boolean> {
+        await this.commitChanges([{ path, action: 'delete' }], message || `Delete ${path}`);
+        return true;
+    }
+
+    /**
+     * 重命名文件：通过 from_path 在同一个提交中移动文件
+     */
+    async renameFile(oldPath: string, newPath: string, content: string, message?: string): Promise<boolean> {
+        try {
+            const branch = await this.getDefaultBranch();
+            const existing = await this.getBlobShas(branch);
+            const sha = existing.get(oldPath);
+            if (!sha) {
+                throw new Error(`File not found: ${oldPath}`);
+            }
+
+            const response = await this.makeRequest(`${this.repoEndpoint()}/contents`, 'POST', {
+                branch,
+                message: message || `Rename ${oldPath} to ${newPath}`,
+                files: [{ operation: 'update', path: newPath, from_path: oldPath, sha, content: this.encodeContent(content) }]
+            });
+            if (!response.success) {
+                throw new Error(response.error || 'Failed to rename file');
+            }
+            return true;
+        } catch (error) {
+            console.error('Error renaming file:', error);
+            throw error;
+        }
+    }
+
+    /**
+     * 将多个文件的新增、更新和删除作为一个提交推送（Gitea 1.20+ 的批量修改接口）
+     * 更新和删除需要提供文件当前的 sha，文件在此期间被修改时整个提交失败
+     */
+    async commitChanges(changes: FileChange[], message?: string): Promise<string> {
+        if (changes.length === 0) {
+            throw new Error('No changes to commit');
+        }
+
+        try {
+            const branch = await this.getDefaultBranch();
+            const existing = await this.getBlobShas(branch);
+
+            const files = changes.map(change => {
+                const sha = existing.get(change.path);
+                if (change.action === 'delete') {
+                    if (!sha) {
+                        throw new Error(`File not found: ${change.path}`);
+                    }
+                    return { operation: 'delete', path: change.path, sha };
+                }
+                // 按文件当前是否存在决定 create 还是 update
+                return sha
+                    ? { operation: 'update', path: change.path, sha, content: this.encodeContent(change.content || '') }
+                    : { operation: 'create', path: change.path, content: this.encodeContent(change.content || '') };
+            });
+
+            const response = await this.makeRequest(`${this.repoEndpoint()}/contents`, 'POST', {
+                branch,
+                message: message || summarizeChanges(changes),
+                files
+            });
+            if (!response.success) {
+                throw new Error(response.error || 'Failed to create commit');
+            }
+
+            const commitSha = response.data.commit?.sha;
+            console.log(`📦 已提交 ${changes.length} 个文件的修改: ${commitSha}`);
+            return commitSha;
+        } catch (error) {
+            console.error('Error committing changes:', error);
+            throw error;
+        }
+    }
+
+    /**
+     * 获取文件的提交历史
+     */
+    async getHistory(path: string, limit = 20): Promise<RemoteRevision[]> {
+        const branch = await this.getDefaultBranch();
+        const response = await this.makeRequest(this.commitsEndpoint(path, branch, limit));
+        if (!response.success) {
+            throw new Error(response.error || 'Failed to fetch history');
+        }
+
+        return (response.data as any[]).map(commit => ({
+            id: commit.sha,
+            date: commit.commit.committer.date,
+            message: commit.commit.message,
+            author: commit.commit.author?.name
+        }));
+    }
+
+    /**
+     * 读取文件在某个提交中的内容
+     */
+    async downloadRevision(path: string, revisionId: string): Promise<string> {
+        return this.downloadFile(path, revisionId);
+    }
+
+    /**
+     * Gitea tree 中的 sha 就是 git blob SHA，可直接与本地内容比较
+     */
+    computeVersion(content: string): string {
+        return HashUtils.calculateGitBlobSha(content);
+    }
+
+    /**
+     * 分页获取分支中的所有文件（不含目录）
+     * 空仓库没有 tree，返回空列表
+     */
+    private async listTree(branch: string): Promise<GiteaTreeEntry[]> {
+        const entries: GiteaTreeEntry[] = [];
+
+        for (let page = 1; ; page++) {
+            const url = `${this.repoEndpoint()}/git/trees/${encodeURIComponent(branch)}?recursive=true&per_page=1000&page=${page}`;
+            const response = await this.makeRequest(url);
+            if (!response.success) {
+                // 仓库已确认存在，第一页就找不到说明还没有任何提交
+                if (page === 1 && (response.status === 404 || response.status === 409)) {
+                    return [];
+                }
+                throw new Error(response.error || 'Failed to fetch files');
+            }
+
+            entries.push(...((response.data.tree || []) as any[]).filter(item => item.type === 'blob'));
+            // Gitea 用 truncated 表示还有下一页
+            if (!response.data.truncated) {
+                return entries;
+            }
+        }
+    }
+
+    /**
+     * 分支中所有文件的 path → blob sha
+     */
+    private async getBlobShas(branch: string): Promise<Map<string, string>> {
+        return new Map((await this.listTree(branch)).map(entry => [entry.path, entry.sha]));
+    }
+
+    /**
+     * 获取文件的最后修改时间
+     */
+    private async getFileLastModified(file: RemoteFile, branch: string): Promise<string> {
+        const cache = CacheManager.getInstance();
+        const cacheKey = `${this.baseUrl}/${this.repoPath}:${file.path}:${file.sha}`;
+        const cached = cache.get<string>(GiteaClient.LAST_MODIFIED_CACHE_ID, cacheKey, GiteaClient.LAST_MODIFIED_CACHE_OPTIONS);
+        if (cached) {
+            return cached;
+        }
+
+        try {
+            const response = await this.makeRequest(this.commitsEndpoint(file.path, branch, 1));
+            if (response.success && response.data && response.data.length > 0) {
+                const date = response.data[0].commit.committer.date;
+                cache.set(GiteaClient.LAST_MODIFIED_CACHE_ID, cacheKey, date, GiteaClient.LAST_MODIFIED_CACHE_OPTIONS);
+                return date;
+            }
+            return 'Unknown';
+        } catch (error) {
+            console.warn('Failed to get file last modified time:', error);
+            return 'Unknown';
+        }
+    }
+
+    /**
+     * 获取仓库的默认分支
+     */
+    private async getDefaultBranch(): Promise<string> {
+        const response = await this.makeRequest(this.repoEndpoint());
+        if (!response.success) {
+            throw new Error(response.error || 'Failed to read repository');
+        }
+        return response.data.default_branch || 'main';
+    }
+
+    /**
+     * 文件提交历史的接口路径；Gitea 用 limit 分页，并关闭统计信息以加快响应
+     */
+    private commitsEndpoint(path: string, branch: string, limit: number): string {
+        return `${this.repoEndpoint()}/commits?sha=${encodeURIComponent(branch)}&path=${encodeURIComponent(path)}&limit=${limit}&stat=false&verification=false&files=false`;
+    }
+
+    private repoEndpoint(): string {
+        return `/repos/${this.repoPath}`;
+    }
+
+    /**
+     * 逐段编码文件路径，保留目录分隔符
+     */
+    private encodePath(path: string): string {
+        return path.split('/').map(encodeURIComponent).join('/');
+    }
+
+    /**
+     * Base64 编码，与 GitHub 客户端的编码方式一致
+     */
+    private encodeContent(content: string): string {
+        return btoa(unescape(encodeURIComponent(content)));
+    }
+
+    /**
+     * 发送 API 请求
+     */
+    private async makeRequest(endpoint: string, method = 'GET', body?: any, responseType: 'json' | 'text' = 'json'): Promise<GiteaApiResponse> {
+        const apiUrl = `${this.baseUrl}/api/v1${endpoint}`;
+        try {
+            const headers: HeadersInit = {
+                'Authorization': `token ${this.token}`,
+                'Accept': 'application/json'
+            };
+
+            if (body && (method === 'POST' || method === 'PUT')) {
+                headers['Content-Type'] = 'application/json';
+            }
+
+            console.log(`🌐 发送请求: ${method} ${apiUrl}`);
+            // 通过调度器发送：限制并发，429 和 GET 请求的 5xx 自动退避重试
+            const response = await this.scheduler.execute(async () => {
+                // 每次尝试单独计时
+                const controller = new AbortController();
+                const timeoutId = setTimeout(() => controller.abort(), 30000); // 30秒超时
+
+                const config: RequestInit = {
+                    method,
+                    headers,
+                    signal: controller.signal
+                };
+
+                if (body) {
+                    config.body = JSON.stringify(body);
+                }
+
+                try {
+                    return await fetch(apiUrl, config);
+                } finally {
+                    clearTimeout(timeoutId); // 清除超时定时器
+                }
+            }, method);
+
+            console.log(`📡 响应状态: ${response.status} ${response.statusText}`);
+
+            if (response.status === 401) {
+                return {
+                    success: false,
+                    error: 'Token认证失败，请检查Token是否正确和有效',
+                    status: response.status
+                };
+            }
+
+            if (response.status === 403) {
+                return {
+                    success: false,
+                    error: 'API访问被禁止，请检查Token是否具有仓库读写权限',
+                    status: response.status
+                };
+            }
+
+            if (response.status === 404) {
+                return {
+                    success: false,
+                    error: '仓库或文件不存在，或无访问权限，请检查仓库路径和Token权限',
+                    status: response.status
+                };
+            }
+
+            if (!response.ok) {
+                const data = await response.json().catch(() => null);
+                return {
+                    success: false,
+                    error: data?.message || `HTTP ${response.status}: ${response.statusText}`,
+                    status: response.status
+                };
+            }
+
+            return {
+                success: true,
+                data: responseType === 'text' ? await response.text() : await response.json(),
+                status: response.status
+            };
+        } catch (error) {
+            if (error instanceof Error && error.name === 'AbortError') {
+                return {
+                    success: false,
+                    error: '请求超时，请检查网络连接稳定性'
+                };
+            }
+
+            if (error instanceof Error && error.message.includes('Failed to fetch')) {
+                return {
+                    success: false,
+                    error: '网络连接失败，请检查Gitea地址、网络连接和防火墙设置'
+                };
+            }
+
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+            console.error('💥 makeRequest错误:', errorMessage);
+            return {
+                success: false,
+                error: errorMessage
+            };
+        }
+    }
+
+    /**
+     * 获取最近一次请求返回的 API 配额信息（仅在实例开启限流时存在）
+     */
+    getRateLimit(): RateLimitInfo | null {
+        return this.scheduler.getRateLimit();
+    }
+
+    /**
+     * 配额是否已用完且尚未重置
+     */
+    isRateLimited(): boolean {
+        return this.scheduler.isRateLimited();
+    }
+
+    /**
+     * 监听 API 配额变化，返回取消监听的函数
+     */
+    onRateLimitChange(listener: (info: RateLimitInfo) => void): () => void {
+        return this.scheduler.onRateLimitChange(listener);
+    }
+
+    /**
+     * 更新实例地址、token 和仓库路径
+     */
+    updateCredentials(baseUrl: string, token: string, repoPath: string) {
+        this.baseUrl = baseUrl.replace(/\/+$/, '');
+        this.token = token;
+        this.repoPath = repoPath;
+    }
+}
@@ -1,31 +1,75 @@
 import { Notice } from 'obsidian';
 
-import { SecurityUtils } from './security-utils';
-
-export interface GitHubFile {
-    name: string;
-    path: string;
-    sha: string;
-    size: number;
-    url: string;
-    content?: string;
+import { SecurityUtils, GitHubTokenType } from './security-utils';
+import { RequestScheduler, RateLimitInfo } from './utils/request-scheduler';
+import { CacheManager, CacheOptions } from './utils/cache-manager';
+import { HashUtils } from './utils/hash-utils';
+import { RemoteSnippetStore, RemoteFile, RemoteRevision, FileChange, summarizeChanges } from './remote-snippet-store';
+
+export type GitHubFile = RemoteFile;
+
+interface CachedResponse {
+    etag?: string;
     lastModified?: string;
+    data: any;
 }
 
 export interface GitHubApiResponse {
     success: boolean;
     data?: any;
     error?: string;
+    status?: number; // 请求失败时的 HTTP 状态码
+    headers?: Headers; // 响应头（检查 Token 权限时使用）
+}
+
+/**
+ * 读写使用的分支
+ */
+export interface GitHubBranchOptions {
+    branch: string; // 为空时使用仓库默认分支
+    createIfMissing: boolean; // 分支不存在时是否自动创建
+    baseBranch: string; // 创建分支和合并更新的来源分支，为空时使用默认分支
 }
 
-export class GitHubClient {
+/**
+ * Token 权限检查结果
+ */
+export interface TokenPermissionReport {
+    tokenType: GitHubTokenType;
+    login?: string;
+    scopes: string[] | null; // 经典 Token 和 OAuth Token 的 scope，细粒度 Token 没有 scope 时为 null
+    expiresAt?: string; // Token 过期时间，永不过期时为空
+    missing: string[]; // 缺少的权限说明
+    warnings: string[];
+}
+
+/**
+ * 从来源分支更新当前分支的结果
+ */
+export type BranchUpdateResult = 'up-to-date' | 'fast-forward' | 'merged';
+
+export class GitHubClient implements RemoteSnippetStore {
+    static readonly RESPONSE_CACHE_ID = 'github-responses';
+    static readonly DEFAULT_API_URL = 'https://api.github.com';
+    // 缓存内容由 ETag 校验，只需控制条目数量
+    private static readonly RESPONSE_CACHE_OPTIONS: CacheOptions = {
+        expiryMs: 30 * 24 * 60 * 60 * 1000,
+        maxItems: 2000
+    };
+
+    readonly displayName = 'GitHub';
     private token: string;
     private repoUrl: string;
-    private baseApiUrl = 'https://api.github.com';
+    private baseApiUrl: string; // github.com 为 https://api.github.com，企业版为 https://<主机>/api/v3
+    private scheduler = new RequestScheduler();
+    private branchOptions: GitHubBranchOptions = { branch: '', createIfMissing: false, baseBranch: '' };
+    private resolvedBranch: string | null = null; // 已确认存在的分支，配置变化时清空
+    private defaultBranch: string | null = null; // 仓库的默认分支，仓库变化时清空
 
-    constructor(token: string, repoUrl: string) {
+    constructor(token: string, repoUrl: string, apiUrl: string = GitHubClient.DEFAULT_API_URL) {
         this.token = token;
         this.repoUrl = repoUrl;
+        this.baseApiUrl = apiUrl.replace(/\/+$/, '');
     }
 
     /**
@@ -41,38 +85,127 @@ export class GitHubClient {
         }
     }
 
+    /**
+     * 检查 Token 的权限和有效期，列出读写仓库（或 Gist）缺少的权限
+     * 经典 Token 和 OAuth Token 通过 X-OAuth-Scopes 判断；细粒度 Token 没有 scope，通过仓库信息中的 permissions 判断写入权限
+     */
+    async inspectTokenPermissions(target: 'repo' | 'gist' = 'repo'): Promise<TokenPermissionReport> {
+        const report: TokenPermissionReport = {
+            tokenType: SecurityUtils.getGitHubTokenType(this.token),
+            scopes: null,
+            missing: [],
+            warnings: []
+        };
+
+        const user = await this.makeRequest('/user');
+        if (!user.success) {
+            report.missing.push(user.status === 401 ? 'Token 无效、已过期或已被撤销' : `无法获取账号信息: ${user.error}`);
+            return report;
+        }
+
+        report.login = user.data?.login;
+        const scopeHeader = user.headers?.get('X-OAuth-Scopes');
+        if (scopeHeader !== null && scopeHeader !== undefined) {
+            report.scopes = scopeHeader.split(',').map(scope => scope.trim()).filter(scope => scope.length > 0);
+        }
+
+        // 设置了有效期的 Token 会返回过期时间，例如 "2024-12-31 23:59:59 UTC"
+        const expiration = user.headers?.get('GitHub-Authentication-Token-Expiration');
+        if (expiration) {
+            report.expiresAt = expiration;
+            const expiresAt = Date.parse(expiration.replace(' UTC', 'Z').replace(' ', 'T'));
+            const daysLeft = Math.ceil((expiresAt - Date.now()) / (24 * 60 * 60 * 1000));
+            if (!isNaN(daysLeft) && daysLeft < 7) {
+                report.warnings.push(`Token 将在 ${Math.max(daysLeft, 1)} 天内过期，请及时更新`);
+            }
+        }
+
+        if (target === 'gist') {
+            if (report.scopes && !report.scopes.includes('gist')) {
+                report.missing.push('gist（读写 Gist）');
+            } else if (!report.scopes) {
+                report.warnings.push('无法读取 Token 的 scope，请确认 Token 具有 Gists 读写权限');
+            }
+            return report;
+        }
+
+        const repo = await this.makeRequest(`/repos/${this.repoUrl}`);
+        if (!repo.success) {
+            report.missing.push(this.describeRepoAccessError(repo, report.scopes));
+            return report;
+        }
+
+        // 仓库信息中的 permissions 是账号角色与 Token 权限共同作用的结果，细粒度 Token 也据此判断，不需要实际写入
+        const permissions = repo.data.permissions;
+        if (permissions && !permissions.push) {
+            report.missing.push(report.scopes
+                ? `账号 ${report.login || ''} 对仓库 ${this.repoUrl} 没有写入权限（需要 Write 角色）`
+                : `Contents: Read and write（Token 未授予写入权限，或账号 ${report.login || ''} 对仓库 ${this.repoUrl} 没有 Write 角色）`);
+        } else if (report.scopes) {
+            const hasRepoScope = report.scopes.includes('repo')
+                || (!repo.data.private && report.scopes.includes('public_repo'));
+            if (!hasRepoScope) {
+                report.missing.push(repo.data.private ? 'repo（读写私有仓库）' : 'repo 或 public_repo（读写仓库）');
+            }
+        } else if (!permissions) {
+            report.warnings.push('无法读取 Token 对仓库的权限，请确认 Token 具有 Contents 读写权限');
+        }
+
+        return report;
+    }
+
+    /**
+     * 说明无法访问仓库的原因
+     */
+    private describeRepoAccessError(response: GitHubApiResponse, scopes: string[] | null): string {
+        if (response.status === 404) {
+            if (scopes && !scopes.includes('repo')) {
+                return `repo（仓库 ${this.repoUrl} 不存在，或为私有仓库需要 repo 权限）`;
+            }
+            if (!scopes) {
+                return `Repository access（Token 未授权访问仓库 ${this.repoUrl}，或仓库不存在）`;
+            }
+            return `仓库 ${this.repoUrl} 不存在或账号无访问权限`;
+        }
+        const accepted = response.headers?.get('X-Accepted-GitHub-Permissions');
+        if (accepted) {
+            return `Metadata: Read-only（读取仓库，需要 ${accepted}）`;
+        }
+        return `无法访问仓库: ${response.error}`;
+    }
+
     /**
      * 获取仓库中的 .css 文件列表
+     * 通过递归 git tree 一次获取所有文件；只有界面需要显示修改时间时才额外查询提交历史
      */
-    async listFiles(path: string = ''): Promise<GitHubFile[]> {
+    async listFiles(path: string = '', includeLastModified = false): Promise<GitHubFile[]> {
         try {
-            const url = `/repos/${this.repoUrl}/contents/${path}`;
+            const branch = await this.resolveBranch();
+            const url = `/repos/${this.repoUrl}/git/trees/${this.encodeBranch(branch)}?recursive=1`;
             const response = await this.makeRequest(url);
-            
-            if (!response.success) {
-                throw new Error(response.error || 'Failed to fetch files');
-            }
-
-            const files: GitHubFile[] = [];
-            const items = Array.isArray(response.data) ? response.data : [response.data];
 
-            for (const item of items) {
-                if (item.type === 'file' && item.name.endsWith('.css')) {
-                    // 获取文件的最后修改时间
-                    const lastModified = await this.getFileLastModified(item.path);
-                    
-                    files.push({
-                        name: item.name,
+            let files: GitHubFile[];
+            if (!response.success || response.data.truncated) {
+                // 空仓库没有 tree，超大仓库的 tree 会被截断，这两种情况逐个目录获取
+                console.warn('递归 tree 不可用，改为逐个目录获取文件列表:', response.error || 'truncated');
+                files = await this.listFilesByContents(path, branch);
+            } else {
+                const prefix = path ? `${path.replace(/\/+$/, '')}/` : '';
+                files = (response.data.tree as any[])
+                    .filter(item => item.type === 'blob' && item.path.endsWith('.css') && item.path.startsWith(prefix))
+                    .map(item => ({
+                        name: item.path.split('/').pop(),
                         path: item.path,
                         sha: item.sha,
                         size: item.size,
-                        url: item.download_url,
-                        lastModified
-                    });
-                } else if (item.type === 'dir') {
-                    // 递归获取子目录中的 CSS 文件
-                    const subFiles = await this.listFiles(item.path);
-                    files.push(...subFiles);
+                        url: this.rawFileUrl(branch, item.path)
+                    }));
+            }
+
+            if (includeLastModified && files.length > 0) {
+                const dates = await this.getLastModifiedDates(files.map(file => file.path), branch, response.data?.sha);
+                for (const file of files) {
+                    file.lastModified = dates[file.path] || 'Unknown';
                 }
             }
 
@@ -84,11 +217,99 @@ export class GitHubClient {
     }
 
     /**
-     * 下载文件内容
+     * 通过 contents API 逐个目录获取 .css 文件（不查询修改时间）
+     */
+    private async listFilesByContents(path: string, branch: string): Promise<GitHubFile[]> {
+        const url = `/repos/${this.repoUrl}/contents/${path}?ref=${encodeURIComponent(branch)}`;
+        const response = await this.makeRequest(url);
+
+        if (!response.success) {
+            throw new Error(response.error || 'Failed to fetch files');
+        }
+
+        const files: GitHubFile[] = [];
+        const items = Array.isArray(response.data) ? response.data : [response.data];
+
+        for (const item of items) {
+            if (item.type === 'file' && item.name.endsWith('.css')) {
+                files.push({
+                    name: item.name,
+                    path: item.path,
+                    sha: item.sha,
+                    size: item.size,
+                    url: item.download_url
+                });
+            } else if (item.type === 'dir') {
+                // 递归获取子目录中的 CSS 文件
+                files.push(...await this.listFilesByContents(item.path, branch));
+            }
+        }
+
+        return files;
+    }
+
+    /**
+     * 通过 GraphQL 批量查询文件的最后修改时间，每个请求最多查询 50 个文件
+     * GraphQL 不可用时退回到逐个文件查询
+     */
+    private async getLastModifiedDates(paths: string[], branch: string, treeSha?: string): Promise<Record<string, string>> {
+        // 同一个 tree 的文件修改时间不会变化，按 tree sha 缓存
+        const cache = CacheManager.getInstance();
+        const cacheKey = `last-modified:${this.repoUrl}:${branch}:${treeSha}`;
+        if (treeSha) {
+            const cachedDates = cache.get<Record<string, string>>(GitHubClient.RESPONSE_CACHE_ID, cacheKey, GitHubClient.RESPONSE_CACHE_OPTIONS);
+            if (cachedDates && paths.every(filePath => filePath in cachedDates)) {
+                return cachedDates;
+            }
+        }
+
+        const dates: Record<string, string> = {};
+        const [owner, name] = this.repoUrl.split('/');
+        const BATCH_SIZE = 50;
+
+        for (let start = 0; start < paths.length; start += BATCH_SIZE) {
+            const batch = paths.slice(start, start + BATCH_SIZE);
+            const fields = batch
+                .map((filePath, index) => `f${index}: history(first: 1, path: ${JSON.stringify(filePath)}) { nodes { committedDate } }`)
+                .join('\n');
+            const query = `query($owner: String!, $name: String!, $expression: String!) {
+                repository(owner: $owner, name: $name) {
+                    object(expression: $expression) { ... on Commit { ${fields} } }
+                }
+            }`;
+
+            const response = await this.makeRequest(this.graphqlUrl(), 'POST', {
+                query,
+                variables: { owner, name, expression: branch }
+            });
+            const commit = response.success ? response.data?.data?.repository?.object : null;
+
+            if (!commit) {
+                console.warn('GraphQL 查询修改时间失败，改为逐个文件查询:', response.error || response.data?.errors);
+                for (const filePath of batch) {
+                    dates[filePath] = await this.getFileLastModified(filePath, branch);
+                }
+                continue;
+            }
+
+            batch.forEach((filePath, index) => {
+                const node = commit[`f${index}`]?.nodes?.[0];
+                dates[filePath] = node ? node.committedDate : 'Unknown';
+            });
+        }
+
+        if (treeSha) {
+            cache.set(GitHubClient.RESPONSE_CACHE_ID, cacheKey, dates, GitHubClient.RESPONSE_CACHE_OPTIONS);
+        }
+        return dates;
+    }
+
+    /**
+     * 下载文件内容，指定 ref 时读取该提交中的版本，否则读取当前分支中的版本
      */
-    async downloadFile(path: string): Promise<string> {
+    async downloadFile(path: string, ref?: string): Promise<string> {
         try {
-            const url = `/repos/${this.repoUrl}/contents/${path}`;
+            const url = `/repos/${this.repoUrl}/contents/${path}?ref=${encodeURIComponent(ref || await this.resolveBranch())}`;
             const response = await this.makeRequest(url);
             
             if (!response.success) {
@@ -136,7 +357,8 @@ export class GitHubClient {
     async uploadFile(path: string, content: string, message?: string): Promise<boolean> {
         try {
             // 首先检查文件是否存在
-            const existingFile = await this.getFileInfo(path);
+            const branch = await this.resolveBranch();
+            const existingFile = await this.getFileInfo(path, branch);
             
             const url = `/repos/${this.repoUrl}/contents/${path}`;
             
@@ -146,7 +368,8 @@ export class GitHubClient {
             
             const body: any = {
                 message: message || `Update ${path}`,
-                content: base64Content
+                content: base64Content,
+                branch
             };
 
             if (existingFile) {
@@ -166,7 +389,8 @@ export class GitHubClient {
      */
     async deleteFile(path: string, message?: string): Promise<boolean> {
         try {
-            const fileInfo = await this.getFileInfo(path);
+            const branch = await this.resolveBranch();
+            const fileInfo = await this.getFileInfo(path, branch);
             if (!fileInfo) {
                 throw new Error('File not found');
             }
@@ -174,7 +398,8 @@ export class GitHubClient {
             const url = `/repos/${this.repoUrl}/contents/${path}`;
             const body = {
                 message: message || `Delete ${path}`,
-                sha: fileInfo.sha
+                sha: fileInfo.sha,
+                branch
             };
 
             const response = await this.makeRequest(url, 'DELETE', body);
@@ -185,12 +410,312 @@ export class GitHubClient {
         }
     }
 
+    /**
+     * 获取文件在当前分支上的提交历史
+     */
+    async getHistory(path: string, limit = 20): Promise<RemoteRevision[]> {
+        const branch = await this.resolveBranch();
+        const url = `/repos/${this.repoUrl}/commits?sha=${encodeURIComponent(branch)}&path=${encodeURIComponent(path)}&per_page=${limit}`;
+        const response = await this.makeRequest(url);
+        if (!response.success) {
+            throw new Error(response.error || 'Failed to fetch history');
+        }
+
+        return (response.data as any[]).map(commit => ({
+            id: commit.sha,
+            date: commit.commit.committer.date,
+            message: commit.commit.message,
+            author: commit.commit.author?.name
+        }));
+    }
+
+    /**
+     * 读取文件在某个提交中的内容
+     */
+    async downloadRevision(path: string, revisionId: string): Promise<string> {
+        return this.downloadFile(path, revisionId);
+    }
+
+    /**
+     * 本地内容的 git blob SHA，可直接与 GitHubFile.sha 比较
+     */
+    computeVersion(content: string): string {
+        return HashUtils.calculateGitBlobSha(content);
+    }
+
+    /**
+     * 重命名文件：在同一个提交中删除旧路径并创建新路径
+     */
+    async renameFile(oldPath: string, newPath: string, content: string, message?: string): Promise<boolean> {
+        await this.commitChanges([
+            { path: newPath, action: 'add', content },
+            { path: oldPath, action: 'delete' }
+        ], message || `Rename ${oldPath} to ${newPath}`);
+        return true;
+    }
+
+    /**
+     * 将多个文件的新增、更新和删除作为一个提交推送（通过 Git Data API）
+     * 更新分支引用时不强制覆盖，分支在此期间被修改时整个提交失败，不会留下部分修改
+     */
+    async commitChanges(changes: FileChange[], message?: string): Promise<string> {
+        if (changes.length === 0) {
+            throw new Error('No changes to commit');
+        }
+
+        try {
+            const branch = await this.resolveBranch();
+
+            const refResponse = await this.makeRequest(`/repos/${this.repoUrl}/git/ref/heads/${this.encodeBranch(branch)}`);
+            if (refResponse.status === 409 || refResponse.status === 404) {
+                // 空仓库还没有任何提交（GitHub 返回 409），Git Data API 不可用
+                return await this.commitToEmptyRepository(branch, changes, message);
+            }
+            if (!refResponse.success) {
+                throw new Error(refResponse.error || 'Failed to read branch');
+            }
+            const parentSha = refResponse.data.object.sha;
+
+            const commitResponse = await this.makeRequest(`/repos/${this.repoUrl}/git/commits/${parentSha}`);
+            if (!commitResponse.success) {
+                throw new Error(commitResponse.error || 'Failed to read commit');
+            }
+
+            // 为新增和更新的文件创建 blob，删除的文件 sha 置为 null
+            const tree: { path: string, mode: string, type: string, sha: string | null }[] = [];
+            for (const change of changes) {
+                if (change.action === 'delete') {
+                    tree.push({ path: change.path, mode: '100644', type: 'blob', sha: null });
+                    continue;
+                }
+
+                const blobResponse = await this.makeRequest(`/repos/${this.repoUrl}/git/blobs`, 'POST', {
+                    content: btoa(unescape(encodeURIComponent(change.content || ''))),
+                    encoding: 'base64'
+                });
+                if (!blobResponse.success) {
+                    throw new Error(blobResponse.error || `Failed to create blob for ${change.path}`);
+                }
+                tree.push({ path: change.path, mode: '100644', type: 'blob', sha: blobResponse.data.sha });
+            }
+
+            const treeResponse = await this.makeRequest(`/repos/${this.repoUrl}/git/trees`, 'POST', {
+                base_tree: commitResponse.data.tree.sha,
+                tree
+            });
+            if (!treeResponse.success) {
+                throw new Error(treeResponse.error || 'Failed to create tree');
+            }
+
+            const newCommitResponse = await this.makeRequest(`/repos/${this.repoUrl}/git/commits`, 'POST', {
+                message: message || summarizeChanges(changes),
+                tree: treeResponse.data.sha,
+                parents: [parentSha]
+            });
+            if (!newCommitResponse.success) {
+                throw new Error(newCommitResponse.error || 'Failed to create commit');
+            }
+
+            const updateResponse = await this.makeRequest(`/repos/${this.repoUrl}/git/refs/heads/${this.encodeBranch(branch)}`, 'PATCH', {
+                sha: newCommitResponse.data.sha,
+                force: false
+            });
+            if (!updateResponse.success) {
+                throw new Error(updateResponse.error || 'Failed to update branch');
+            }
+
+            console.log(`📦 已提交 ${changes.length} 个文件的修改: ${newCommitResponse.data.sha}`);
+            return newCommitResponse.data.sha;
+        } catch (error) {
+            console.error('Error committing changes:', error);
+            throw error;
+        }
+    }
+
+    /**
+     * 向空仓库提交：先通过 contents API 创建第一个文件（同时创建分支），剩余的修改再作为一个提交推送
+     */
+    private async commitToEmptyRepository(branch: string, changes: FileChange[], message?: string): Promise<string> {
+        const first = changes.find(change => change.action !== 'delete');
+        if (!first) {
+            throw new Error('File not found');
+        }
+
+        const response = await this.makeRequest(`/repos/${this.repoUrl}/contents/${first.path}`, 'PUT', {
+            message: message || summarizeChanges(changes),
+            content: btoa(unescape(encodeURIComponent(first.content || ''))),
+            branch
+        });
+        if (!response.success) {
+            throw new Error(response.error || `Failed to create ${first.path}`);
+        }
+        console.log(`🌱 已在空仓库中创建第一个提交: ${first.path}`);
+
+        const rest = changes.filter(change => change !== first);
+        if (rest.length === 0) {
+            return response.data.commit.sha;
+        }
+        return this.commitChanges(rest, message);
+    }
+
+    /**
+     * 获取仓库的默认分支
+     */
+    private async getDefaultBranch(): Promise<string> {
+        if (this.defaultBranch) {
+            return this.defaultBranch;
+        }
+
+        const response = await this.makeRequest(`/repos/${this.repoUrl}`);
+        if (!response.success) {
+            throw new Error(response.error || 'Failed to read repository');
+        }
+        const branch: string = response.data.default_branch || 'main';
+        this.defaultBranch = branch;
+        return branch;
+    }
+
+    /**
+     * 获取读写使用的分支：未配置时为默认分支；配置的分支不存在时按设置自动创建或报错
+     */
+    private async resolveBranch(): Promise<string> {
+        if (this.resolvedBranch) {
+            return this.resolvedBranch;
+        }
+
+        const { branch, createIfMissing } = this.branchOptions;
+        if (!branch) {
+            this.resolvedBranch = await this.getDefaultBranch();
+            return this.resolvedBranch;
+        }
+
+        if (!(await this.getBranchSha(branch))) {
+            if (!createIfMissing) {
+                throw new Error(`分支 ${branch} 不存在，请先创建分支或在设置中开启自动创建`);
+            }
+            await this.createBranch(branch, this.branchOptions.baseBranch);
+        }
+        this.resolvedBranch = branch;
+        return branch;
+    }
+
+    /**
+     * 获取分支最新提交的 SHA，分支不存在时返回 null
+     */
+    private async getBranchSha(branch: string): Promise<string | null> {
+        const response = await this.makeRequest(`/repos/${this.repoUrl}/git/ref/heads/${this.encodeBranch(branch)}`);
+        if (response.success) {
+            return response.data.object.sha;
+        }
+        if (response.status === 404) {
+            return null;
+        }
+        throw new Error(response.error || 'Failed to read branch');
+    }
+
+    /**
+     * 从来源分支（为空时为默认分支）的最新提交创建分支
+     */
+    async createBranch(branch: string, fromBranch = ''): Promise<void> {
+        const source = fromBranch || await this.getDefaultBranch();
+        const sourceSha = await this.getBranchSha(source);
+        if (!sourceSha) {
+            throw new Error(`来源分支 ${source} 不存在`);
+        }
+
+        const response = await this.makeRequest(`/repos/${this.repoUrl}/git/refs`, 'POST', {
+            ref: `refs/heads/${branch}`,
+            sha: sourceSha
+        });
+        if (!response.success) {
+            throw new Error(response.error || `Failed to create branch ${branch}`);
+        }
+        console.log(`🌿 已从 ${source} 创建分支 ${branch}`);
+    }
+
+    /**
+     * 获取仓库的分支名称列表
+     */
+    async listBranches(): Promise<string[]> {
+        const branches: string[] = [];
+        for (let page = 1; ; page++) {
+            const response = await this.makeRequest(`/repos/${this.repoUrl}/branches?per_page=100&page=${page}`);
+            if (!response.success) {
+                throw new Error(response.error || 'Failed to list branches');
+            }
+            branches.push(...(response.data as any[]).map(item => item.name));
+            if (response.data.length < 100) {
+                return branches;
+            }
+        }
+    }
+
+    /**
+     * 把来源分支（为空时为默认分支）的修改合入当前分支
+     * 当前分支没有独有提交时直接快进，否则在服务器上创建合并提交；有冲突时抛出错误
+     */
+    async updateBranchFrom(sourceBranch = ''): Promise<BranchUpdateResult> {
+        const branch = await this.resolveBranch();
+        const source = sourceBranch || await this.getDefaultBranch();
+        if (source === branch) {
+            return 'up-to-date';
+        }
+
+        const compareResponse = await this.makeRequest(
+            `/repos/${this.repoUrl}/compare/${encodeURIComponent(branch)}...${encodeURIComponent(source)}`
+        );
+        if (!compareResponse.success) {
+            throw new Error(compareResponse.error || 'Failed to compare branches');
+        }
+
+        // status 描述来源分支相对当前分支的状态
+        switch (compareResponse.data.status) {
+            case 'identical':
+            case 'behind':
+                return 'up-to-date';
+            case 'ahead': {
+                const response = await this.makeRequest(`/repos/${this.repoUrl}/git/refs/heads/${this.encodeBranch(branch)}`, 'PATCH', {
+                    sha: await this.getBranchSha(source),
+                    force: false
+                });
+                if (!response.success) {
+                    throw new Error(response.error || 'Failed to fast-forward branch');
+                }
+                console.log(`⏩ 已将 ${branch} 快进到 ${source}`);
+                return 'fast-forward';
+            }
+            default: {
+                const response = await this.makeRequest(`/repos/${this.repoUrl}/merges`, 'POST', {
+                    base: branch,
+                    head: source,
+                    commit_message: `Merge ${source} into ${branch}`
+                });
+                if (response.status === 409) {
+                    throw new Error(`${source} 与 ${branch} 存在冲突，无法自动合并，请在 GitHub 上手动处理`);
+                }
+                if (!response.success) {
+                    throw new Error(response.error || 'Failed to merge branch');
+                }
+                console.log(`🔀 已将 ${source} 合并到 ${branch}`);
+                return 'merged';
+            }
+        }
+    }
+
+    /**
+     * 设置读写使用的分支
+     */
+    setBranchOptions(options: GitHubBranchOptions) {
+        this.branchOptions = { ...options, branch: options.branch.trim(), baseBranch: options.baseBranch.trim() };
+        this.resolvedBranch = null;
+    }
+
     /**
      * 获取文件信息
      */
-    private async getFileInfo(path: string): Promise<GitHubFile | null> {
+    private async getFileInfo(path: string, branch: string): Promise<GitHubFile | null> {
         try {
-            const url = `/repos/${this.repoUrl}/contents/${path}`;
+            const url = `/repos/${this.repoUrl}/contents/${path}?ref=${encodeURIComponent(branch)}`;
             const response = await this.makeRequest(url);
             
             if (response.success) {
@@ -211,9 +736,9 @@ export class GitHubClient {
     /**
      * 获取文件的最后修改时间
      */
-    private async getFileLastModified(path: string): Promise<string> {
+    private async getFileLastModified(path: string, branch: string): Promise<string> {
         try {
-            const url = `/repos/${this.repoUrl}/commits?path=${encodeURIComponent(path)}&per_page=1`;
+            const url = `/repos/${this.repoUrl}/commits?sha=${encodeURIComponent(branch)}&path=${encodeURIComponent(path)}&per_page=1`;
             const response = await this.makeRequest(url);
             
             if (response.success && response.data && response.data.length > 0) {
@@ -227,9 +752,58 @@ export class GitHubClient {
     }
 
     /**
-     * 发送 API 请求
+     * 当前使用的 API 地址
      */
-    private async makeRequest(endpoint: string, method: string = 'GET', body?: any): Promise<GitHubApiResponse> {
+    getApiUrl(): string {
+        return this.baseApiUrl;
+    }
+
+    /**
+     * 仓库的网页地址
+     */
+    getWebUrl(): string {
+        return `${this.getWebBaseUrl()}/${this.repoUrl}`;
+    }
+
+    /**
+     * 网页地址的根：api.github.com 对应 github.com，企业版去掉 /api/v3
+     */
+    getWebBaseUrl(): string {
+        return this.baseApiUrl === GitHubClient.DEFAULT_API_URL
+            ? 'https://github.com'
+            : this.baseApiUrl.replace(/\/api\/v3$/, '');
+    }
+
+    /**
+     * GraphQL 接口地址：企业版为 /api/graphql 而不是 /api/v3/graphql
+     */
+    private graphqlUrl(): string {
+        return this.baseApiUrl.endsWith('/api/v3')
+            ? `${this.baseApiUrl.slice(0, -'/v3'.length)}/graphql`
+            : `${this.baseApiUrl}/graphql`;
+    }
+
+    /**
+     * 编码 URL 路径中的分支名，保留 device/laptop 这类分支名中的斜杠
+     */
+    private encodeBranch(branch: string): string {
+        return branch.split('/').map(encodeURIComponent).join('/');
+    }
+
+    /**
+     * 文件原始内容的地址
+     */
+    private rawFileUrl(branch: string, path: string): string {
+        return this.baseApiUrl === GitHubClient.DEFAULT_API_URL
+            ? `https://raw.githubusercontent.com/${this.repoUrl}/${branch}/${path}`
+            : `${this.getWebBaseUrl()}/${this.repoUrl}/raw/${branch}/${path}`;
+    }
+
+    /**
+     * 发送 API 请求（Gist 存储也通过此方法访问 GitHub API，共享调度和缓存）
+     * endpoint 为相对于 API 地址的路径，也可以是完整地址
+     */
+    async makeRequest(endpoint: string, method: string = 'GET', body?: any): Promise<GitHubApiResponse> {
         try {
             const headers: HeadersInit = {
                 'Authorization': `Bearer ${this.token}`,
@@ -237,50 +811,104 @@ export class GitHubClient {
                 'User-Agent': 'CSS-Snippets-Manager'
             };
 
-            if (body && (method === 'POST' || method === 'PUT')) {
+            if (body && (method === 'POST' || method === 'PUT' || method === 'PATCH')) {
                 headers['Content-Type'] = 'application/json';
             }
 
-            // 添加超时控制
-            const controller = new AbortController();
-            const timeoutId = setTimeout(() => controller.abort(), 30000); // 30秒超时
-
-            const config: RequestInit = {
-                method,
-                headers,
-                signal: controller.signal
-            };
-
-            if (body) {
-                config.body = JSON.stringify(body);
+            // GET 请求带上缓存的 ETag，未修改时服务器返回 304，不消耗请求配额
+            const cache = CacheManager.getInstance();
+            const url = /^https?:\/\//.test(endpoint) ? endpoint : `${this.baseApiUrl}${endpoint}`;
+            const cacheKey = url;
+            const cached = method === 'GET'
+                ? cache.get<CachedResponse>(GitHubClient.RESPONSE_CACHE_ID, cacheKey, GitHubClient.RESPONSE_CACHE_OPTIONS)
+                : null;
+            if (cached?.etag) {
+                headers['If-None-Match'] = cached.etag;
+            } else if (cached?.lastModified) {
+                headers['If-Modified-Since'] = cached.lastModified;
             }
 
             try {
-                console.log(`🌐 发送请求: ${method} ${this.baseApiUrl}${endpoint}`);
-                const response = await fetch(`${this.baseApiUrl}${endpoint}`, config);
-                clearTimeout(timeoutId); // 清除超时定时器
+                console.log(`🌐 发送请求: ${method} ${url}`);
+                // 通过调度器发送：限制并发，次级速率限制和 GET 请求的 5xx 自动退避重试
+                const response = await this.scheduler.execute(async () => {
+                    // 每次尝试单独计时
+                    const controller = new AbortController();
+                    const timeoutId = setTimeout(() => controller.abort(), 30000); // 30秒超时
+
+                    const config: RequestInit = {
+                        method,
+                        headers,
+                        signal: controller.signal
+                    };
+
+                    if (body) {
+                        config.body = JSON.stringify(body);
+                    }
+
+                    try {
+                        return await fetch(url, config);
+                    } finally {
+                        clearTimeout(timeoutId); // 清除超时定时器
+                    }
+                }, method);
                 
                 console.log(`📡 响应状态: ${response.status} ${response.statusText}`);
+
+                if (response.status === 304 && cached) {
+                    return {
+                        success: true,
+                        data: cached.data,
+                        headers: response.headers
+                    };
+                }
                 
                 // 处理不同的HTTP状态码
                 if (response.status === 401) {
                     return {
                         success: false,
-                        error: 'Token认证失败，请检查Token是否正确和有效'
+                        error: 'Token认证失败，请检查Token是否正确和有效',
+                        status: 401,
+                        headers: response.headers
                     };
                 }
                 
-                if (response.status === 403) {
+                if (response.status === 403 || response.status === 429) {
+                    const rateLimit = this.scheduler.getRateLimit();
+                    if (response.headers.get('X-RateLimit-Remaining') === '0' && rateLimit) {
+                        return {
+                            success: false,
+                            error: `GitHub API 请求配额已用完，将在 ${new Date(rateLimit.reset).toLocaleTimeString()} 重置`,
+                            status: response.status,
+                            headers: response.headers
+                        };
+                    }
+                    if (response.headers.get('Retry-After') || response.status === 429) {
+                        return {
+                            success: false,
+                            error: '请求过于频繁，已多次重试仍被限制，请稍后再试',
+                            status: response.status,
+                            headers: response.headers
+                        };
+                    }
+                    // 细粒度 Token 缺少权限时，响应头中列出该接口需要的权限
+                    const acceptedPermissions = response.headers.get('X-Accepted-GitHub-Permissions');
                     return {
                         success: false,
-                        error: 'API访问被禁止，可能是Token权限不足或访问频率超限'
+                        error: acceptedPermissions
+                            ? `API访问被禁止，Token 缺少权限: ${acceptedPermissions}`
+                            : 'API访问被禁止，请检查Token权限',
+                        status: response.status,
+                        headers: response.headers
                     };
                 }
                 
                 if (response.status === 404) {
                     return {
                         success: false,
-                        error: '仓库不存在或无访问权限，请检查仓库URL和Token权限'
+                        error: '仓库不存在或无访问权限，请检查仓库URL和Token权限',
+                        status: 404,
+                        headers: response.headers
                     };
                 }
                 
@@ -290,17 +918,30 @@ export class GitHubClient {
                     const errorMessage = data.message || `HTTP ${response.status}: ${response.statusText}`;
                     return {
                         success: false,
-                        error: errorMessage
+                        error: errorMessage,
+                        status: response.status,
+                        headers: response.headers
                     };
                 }
 
+                if (method === 'GET') {
+                    const etag = response.headers.get('ETag');
+                    const lastModified = response.headers.get('Last-Modified');
+                    if (etag || lastModified) {
+                        cache.set<CachedResponse>(GitHubClient.RESPONSE_CACHE_ID, cacheKey, {
+                            etag: etag || undefined,
+                            lastModified: lastModified || undefined,
+                            data
+                        }, GitHubClient.RESPONSE_CACHE_OPTIONS);
+                    }
+                }
+
                 return {
                     success: true,
-                    data
+                    data,
+                    headers: response.headers
                 };
             } catch (fetchError) {
-                clearTimeout(timeoutId); // 确保清除超时定时器
-                
                 if (fetchError instanceof Error) {
                     console.error('🚫 请求异常:', fetchError.message);
                     
@@ -332,10 +973,36 @@ export class GitHubClient {
     }
 
     /**
-     * 更新 token 和仓库 URL
+     * 获取最近一次请求返回的 API 配额信息
+     */
+    getRateLimit(): RateLimitInfo | null {
+        return this.scheduler.getRateLimit();
+    }
+
+    /**
+     * 配额是否已用完且尚未重置
      */
-    updateCredentials(token: string, repoUrl: string) {
+    isRateLimited(): boolean {
+        return this.scheduler.isRateLimited();
+    }
+
+    /**
+     * 监听 API 配额变化，返回取消监听的函数
+     */
+    onRateLimitChange(listener: (info: RateLimitInfo) => void): () => void {
+        return this.scheduler.onRateLimitChange(listener);
+    }
+
+    /**
+     * 更新 token、仓库 URL 和 API 地址（不传 API 地址时保持不变）
+     */
+    updateCredentials(token: string, repoUrl: string, apiUrl?: string) {
         this.token = token;
         this.repoUrl = repoUrl;
+        if (apiUrl) {
+            this.baseApiUrl = apiUrl.replace(/\/+$/, '');
+        }
+        this.resolvedBranch = null;
+        this.defaultBranch = null;
     }
 }
@@ -0,0 +1,137 @@
+import { HttpTransport, obsidianTransport, sendWithTimeout } from './utils/http-transport';
+
+/**
+ * 设备授权码，用户需要在浏览器中打开 verificationUri 并输入 userCode
+ */
+export interface DeviceCode {
+    deviceCode: string;
+    userCode: string;
+    verificationUri: string;
+    expiresAt: number; // 授权码过期的时间戳（毫秒）
+    interval: number; // 轮询间隔（秒）
+}
+
+/**
+ * GitHub OAuth 设备授权流程 - 用户在浏览器中输入验证码授权后，插件轮询获取 Token
+ * 需要用户在 GitHub（或企业实例）中创建启用了 Device Flow 的 OAuth App，并在设置中填写其 Client ID
+ * github.com/login 下的接口不支持跨域，请求通过 requestUrl 发送
+ */
+export class GitHubDeviceAuth {
+    // 仓库读写和 Gist 读写需要的权限
+    static readonly DEFAULT_SCOPES = 'repo gist';
+
+    private webBaseUrl: string;
+    private clientId: string;
+    private transport: HttpTransport;
+    private sleep: (ms: number) => Promise<void>;
+
+    constructor(
+        webBaseUrl: string,
+        clientId: string,
+        transport: HttpTransport = obsidianTransport,
+        sleep: (ms: number) => Promise<void> = ms => new Promise(resolve => setTimeout(resolve, ms))
+    ) {
+        this.webBaseUrl = webBaseUrl.replace(/\/+$/, '');
+        this.clientId = clientId;
+        this.transport = transport;
+        this.sleep = sleep;
+    }
+
+    /**
+     * 申请设备授权码
+     */
+    async requestDeviceCode(scopes: string = GitHubDeviceAuth.DEFAULT_SCOPES): Promise<DeviceCode> {
+        const data = await this.post('/login/device/code', { client_id: this.clientId, scope: scopes });
+        if (data.error) {
+            throw new Error(this.describeError(data.error, data.error_description));
+        }
+
+        return {
+            deviceCode: data.device_code,
+            userCode: data.user_code,
+            verificationUri: data.verification_uri,
+            expiresAt: Date.now() + Number(data.expires_in || 900) * 1000,
+            interval: Number(data.interval || 5)
+        };
+    }
+
+    /**
+     * 按服务器要求的间隔轮询，用户完成授权后返回 Token
+     * isCancelled 返回 true 时停止轮询并抛出错误
+     */
+    async pollForToken(code: DeviceCode, isCancelled: () => boolean = () => false): Promise<string> {
+        let interval = code.interval;
+
+        while (Date.now() < code.expiresAt) {
+            await this.sleep(interval * 1000);
+            if (isCancelled()) {
+                throw new Error('已取消登录');
+            }
+
+            const data = await this.post('/login/oauth/access_token', {
+                client_id: this.clientId,
+                device_code: code.deviceCode,
+                grant_type: 'urn:ietf:params:oauth:grant-type:device_code'
+            });
+
+            if (data.access_token) {
+                return data.access_token;
+            }
+
+            switch (data.error) {
+                case 'authorization_pending':
+                    break;
+                case 'slow_down':
+                    // 服务器要求降低频率，使用返回的新间隔（默认增加 5 秒）
+                    interval = Number(data.interval) || interval + 5;
+                    break;
+                default:
+                    throw new Error(this.describeError(data.error, data.error_description));
+            }
+        }
+
+        throw new Error('验证码已过期，请重新登录');
+    }
+
+    private async post(path: string, params: Record<string, string>): Promise<any> {
+        const url = `${this.webBaseUrl}${path}`;
+        console.log(`🌐 发送请求: POST ${url}`);
+        const response = await sendWithTimeout(this.transport, {
+            url,
+            method: 'POST',
+            headers: {
+                'Accept': 'application/json',
+                'Content-Type': 'application/x-www-form-urlencoded'
+            },
+            body: new URLSearchParams(params).toString()
+        });
+        console.log(`📡 响应状态: ${response.status}`);
+
+        if (response.status === 404) {
+            throw new Error('登录地址不存在，请检查 GitHub 地址，企业版需要 3.1 及以上版本');
+        }
+        try {
+            return JSON.parse(response.text);
+        } catch {
+            throw new Error(`HTTP ${response.status}: 无法解析登录服务器的响应`);
+        }
+    }
+
+    private describeError(error: string, description?: string): string {
+        switch (error) {
+            case 'access_denied':
+                return '已在浏览器中拒绝授权';
+            case 'expired_token':
+                return '验证码已过期，请重新登录';
+            case 'incorrect_client_credentials':
+                return 'OAuth App 的 Client ID 不正确';
+            case 'device_flow_disabled':
+                return 'OAuth App 未启用 Device Flow，请在 App 设置中开启';
+            case 'unsupported_grant_type':
+            case 'incorrect_device_code':
+                return '授权请求无效，请重新登录';
+            default:
+                return description || error || '未知错误';
+        }
+    }
+}
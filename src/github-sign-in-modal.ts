@@ -0,0 +1,108 @@
+import { Notice } from 'obsidian';
+
+import { GitHubDeviceAuth } from './github-device-auth';
+
+/**
+ * GitHub 登录窗口 - 显示设备授权验证码，用户在浏览器中完成授权后自动获取 Token
+ */
+export class GitHubSignInModal {
+    private auth: GitHubDeviceAuth;
+    private onSuccess: (token: string) => Promise<void>;
+    private cancelled = false;
+    private overlay: HTMLElement | null = null;
+    private statusEl: HTMLElement | null = null;
+    private escapeHandler: ((e: KeyboardEvent) => void) | null = null;
+
+    constructor(auth: GitHubDeviceAuth, onSuccess: (token: string) => Promise<void>) {
+        this.auth = auth;
+        this.onSuccess = onSuccess;
+    }
+
+    /**
+     * 打开窗口并开始授权流程
+     */
+    async open(): Promise<void> {
+        const overlay = document.body.createDiv({ cls: 'css-snippets-modal-overlay' });
+        this.overlay = overlay;
+
+        const modal = overlay.createDiv({ cls: 'css-snippets-modal css-snippets-sign-in-modal' });
+        modal.createEl('h3', { text: '使用 GitHub 登录', cls: 'css-snippets-modal-title' });
+        const body = modal.createDiv();
+        this.statusEl = modal.createEl('p', { text: '🔄 正在获取验证码...', cls: 'css-snippets-sign-in-status' });
+
+        const buttons = modal.createDiv({ cls: 'css-snippets-modal-buttons' });
+        const cancelBtn = buttons.createEl('button', {
+            text: '取消',
+            cls: 'css-snippets-modal-btn css-snippets-modal-btn-cancel'
+        });
+        cancelBtn.onclick = () => this.close();
+
+        // ESC键关闭
+        this.escapeHandler = (e: KeyboardEvent) => {
+            if (e.key === 'Escape') {
+                this.close();
+            }
+        };
+        document.addEventListener('keydown', this.escapeHandler);
+
+        try {
+            const code = await this.auth.requestDeviceCode();
+            if (this.cancelled) {
+                return;
+            }
+
+            body.createEl('p', { text: '在 GitHub 页面中输入以下验证码，完成授权后此窗口会自动关闭：' });
+            body.createEl('div', { text: code.userCode, cls: 'css-snippets-sign-in-code' });
+
+            const openBtn = buttons.createEl('button', {
+                text: '复制验证码并打开 GitHub',
+                cls: 'css-snippets-modal-btn css-snippets-modal-btn-primary'
+            });
+            openBtn.onclick = async () => {
+                try {
+                    await navigator.clipboard.writeText(code.userCode);
+                    new Notice('📋 验证码已复制');
+                } catch (error) {
+                    console.warn('复制验证码失败:', error);
+                }
+                window.open(code.verificationUri, '_blank');
+            };
+
+            this.setStatus(`⏳ 等待授权（验证码 ${Math.round((code.expiresAt - Date.now()) / 60000)} 分钟内有效）...`);
+            const token = await this.auth.pollForToken(code, () => this.cancelled);
+            this.setStatus('✅ 授权成功，正在保存 Token...');
+            await this.onSuccess(token);
+            this.close();
+        } catch (error) {
+            if (this.cancelled) {
+                return;
+            }
+            console.error('Error signing in with GitHub:', error);
+            this.setStatus(`❌ 登录失败: ${error instanceof Error ? error.message : '未知错误'}`);
+        }
+    }
+
+    private setStatus(text: string): void {
+        if (this.statusEl) {
+            this.statusEl.textContent = text;
+        }
+    }
+
+    /**
+     * 关闭窗口并停止轮询
+     */
+    private close(): void {
+        this.cancelled = true;
+        if (this.escapeHandler) {
+            document.removeEventListener('keydown', this.escapeHandler);
+            this.escapeHandler = null;
+        }
+
+        const overlay = this.overlay;
+        if (overlay) {
+            this.overlay = null;
+            overlay.classList.add('closing');
+            setTimeout(() => overlay.remove(), 150);
+        }
+    }
+}
@@ -0,0 +1,457 @@
+import { SecurityUtils } from './security-utils';
+import { RequestScheduler, RateLimitInfo } from './utils/request-scheduler';
+import { CacheManager, CacheOptions } from './utils/cache-manager';
+import { HashUtils } from './utils/hash-utils';
+import { RemoteSnippetStore, RemoteFile, RemoteRevision, FileChange, summarizeChanges } from './remote-snippet-store';
+
+export interface GitLabApiResponse {
+    success: boolean;
+    data?: any;
+    error?: string;
+    status?: number;
+    headers?: Headers;
+}
+
+interface GitLabFileDetails {
+    size: number;
+    lastModified: string;
+}
+
+/**
+ * GitLab 存储 - 通过 repository files / commits API 读写项目中的片段
+ * 支持 gitlab.com 和自建实例，使用个人访问令牌（需要 api 权限）认证
+ */
+export class GitLabClient implements RemoteSnippetStore {
+    static readonly DETAILS_CACHE_ID = 'gitlab-file-details';
+    // 按 blob id 缓存，文件内容不变时大小和修改时间也不变
+    private static readonly DETAILS_CACHE_OPTIONS: CacheOptions = {
+        expiryMs: 30 * 24 * 60 * 60 * 1000,
+        maxItems: 2000
+    };
+
+    readonly displayName = 'GitLab';
+    private instanceUrl: string;
+    private token: string;
+    private projectPath: string;
+    private scheduler = new RequestScheduler();
+
+    constructor(instanceUrl: string, token: string, projectPath: string) {
+        this.instanceUrl = instanceUrl.replace(/\/+$/, '');
+        this.token = token;
+        this.projectPath = projectPath;
+    }
+
+    /**
+     * 验证 GitLab 连接
+     */
+    async authenticate(): Promise<boolean> {
+        try {
+            const response = await this.makeRequest('/user');
+            return response.success;
+        } catch (error) {
+            SecurityUtils.logError(error, 'GitLab authentication failed');
+            return false;
+        }
+    }
+
+    /**
+     * 获取项目中的 .css 文件列表
+     * 递归 tree 不包含文件大小和修改时间，界面需要显示时再逐个文件查询（结果按 blob id 缓存）
+     */
+    async listFiles(path = '', includeLastModified = false): Promise<RemoteFile[]> {
+        try {
+            const branch = await this.getDefaultBranch();
+            const prefix = path ? `${path.replace(/\/+$/, '')}/` : '';
+            const files: RemoteFile[] = (await this.listTree(branch))
+                .filter(item => item.path.endsWith('.css') && item.path.startsWith(prefix))
+                .map(item => ({
+                    name: item.name,
+                    path: item.path,
+                    sha: item.id,
+                    size: 0,
+                    url: `${this.instanceUrl}/${this.projectPath}/-/raw/${encodeURIComponent(branch)}/${item.path}`
+                }));
+
+            if (includeLastModified) {
+                await Promise.all(files.map(async file => {
+                    const details = await this.getFileDetails(file, branch);
+                    file.size = details.size;
+                    file.lastModified = details.lastModified;
+                }));
+            }
+
+            return files;
+        } catch (error) {
+            console.error('Error listing files:', error);
+            throw error;
+        }
+    }
+
+    /**
+     * 下载文件内容，指定 ref 时读取该提交中的版本
+     */
+    async downloadFile(path: string, ref?: string): Promise<string> {
+        try {
+            const branch = ref || await this.getDefaultBranch();
+            const url = `${this.projectEndpoint()}/repository/files/${encodeURIComponent(path)}/raw?ref=${encodeURIComponent(branch)}`;
+            const response = await this.makeRequest(url, 'GET', undefined, 'text');
+
+            if (!response.success) {
+                throw new Error(response.error || 'Failed to download file');
+            }
+
+            // 文件大小限制 (10MB)
+            const MAX_FILE_SIZE = 10 * 1024 * 1024;
+            const content: string = response.data;
+            if (content.length > MAX_FILE_SIZE) {
+                throw new Error(`文件过大 (${Math.round(content.length / 1024 / 1024)}MB)，最大允许10MB`);
+            }
+            return content;
+        } catch (error) {
+            console.error('Error downloading file:', error);
+            throw error;
+        }
+    }
+
+    /**
+     * 上传或更新文件
+     */
+    async uploadFile(path: string, content: string, message?: string): Promise<boolean> {
+        await this.commitChanges([{ path, action: 'add', content }], message || `Update ${path}`);
+        return true;
+    }
+
+    /**
+     * 删除文件
+     */
+    async deleteFile(path: string, message?: string): Promise<boolean> {
+        await this.commitChanges([{ path, action: 'delete' }], message || `Delete ${path}`);
+        return true;
+    }
+
+    /**
+     * 重命名文件：GitLab 支持在提交中直接移动文件，保留文件历史
+     */
+    async renameFile(oldPath: string, newPath: string, content: string, message?: string): Promise<boolean> {
+        try {
+            const branch = await this.getDefaultBranch();
+            const response = await this.makeRequest(`${this.projectEndpoint()}/repository/commits`, 'POST', {
+                branch,
+                commit_message: message || `Rename ${oldPath} to ${newPath}`,
+                actions: [{ action: 'move', file_path: newPath, previous_path: oldPath, content }]
+            });
+            if (!response.success) {
+                throw new Error(response.error || 'Failed to rename file');
+            }
+            return true;
+        } catch (error) {
+            console.error('Error renaming file:', error);
+            throw error;
+        }
+    }
+
+    /**
+     * 将多个文件的新增、更新和删除作为一个提交推送（通过 commits API）
+     * GitLab 在服务端一次性应用所有修改，任何一项失败时整个提交都不会生效
+     */
+    async commitChanges(changes: FileChange[], message?: string): Promise<string> {
+        if (changes.length === 0) {
+            throw new Error('No changes to commit');
+        }
+
+        try {
+            const branch = await this.getDefaultBranch();
+
+            // GitLab 区分 create 和 update，按文件当前是否存在决定，而不是依赖调用方的判断
+            const existing = new Set((await this.listTree(branch)).map(item => item.path));
+            const actions = changes.map(change => {
+                if (change.action === 'delete') {
+                    return { action: 'delete', file_path: change.path };
+                }
+                return {
+                    action: existing.has(change.path) ? 'update' : 'create',
+                    file_path: change.path,
+                    content: change.content || ''
+                };
+            });
+
+            const response = await this.makeRequest(`${this.projectEndpoint()}/repository/commits`, 'POST', {
+                branch,
+                commit_message: message || summarizeChanges(changes),
+                actions
+            });
+            if (!response.success) {
+                throw new Error(response.error || 'Failed to create commit');
+            }
+
+            console.log(`📦 已提交 ${changes.length} 个文件的修改: ${response.data.id}`);
+            return response.data.id;
+        } catch (error) {
+            console.error('Error committing changes:', error);
+            throw error;
+        }
+    }
+
+    /**
+     * 获取文件的提交历史
+     */
+    async getHistory(path: string, limit = 20): Promise<RemoteRevision[]> {
+        const branch = await this.getDefaultBranch();
+        const url = `${this.projectEndpoint()}/repository/commits?path=${encodeURIComponent(path)}&ref_name=${encodeURIComponent(branch)}&per_page=${limit}`;
+        const response = await this.makeRequest(url);
+        if (!response.success) {
+            throw new Error(response.error || 'Failed to fetch history');
+        }
+
+        return (response.data as any[]).map(commit => ({
+            id: commit.id,
+            date: commit.committed_date,
+            message: commit.message,
+            author: commit.author_name
+        }));
+    }
+
+    /**
+     * 读取文件在某个提交中的内容
+     */
+    async downloadRevision(path: string, revisionId: string): Promise<string> {
+        return this.downloadFile(path, revisionId);
+    }
+
+    /**
+     * GitLab tree 中的 id 就是 git blob SHA，可直接与本地内容比较
+     */
+    computeVersion(content: string): string {
+        return HashUtils.calculateGitBlobSha(content);
+    }
+
+    /**
+     * 分页获取分支中的所有文件（不含目录）
+     * 空项目没有 tree，返回空列表
+     */
+    private async listTree(branch: string): Promise<{ id: string, name: string, path: string }[]> {
+        const items: { id: string, name: string, path: string }[] = [];
+        let page = '1';
+
+        while (page) {
+            const url = `${this.projectEndpoint()}/repository/tree?recursive=true&per_page=100&ref=${encodeURIComponent(branch)}&page=${page}`;
+            const response = await this.makeRequest(url);
+            if (!response.success) {
+                // 项目已确认存在，第一页就 404 说明仓库还没有任何提交
+                if (items.length === 0 && response.status === 404) {
+                    return [];
+                }
+                throw new Error(response.error || 'Failed to fetch files');
+            }
+
+            items.push(...(response.data as any[]).filter(item => item.type === 'blob'));
+            page = response.headers?.get('X-Next-Page') || '';
+        }
+
+        return items;
+    }
+
+    /**
+     * 获取文件大小和最后修改时间
+     */
+    private async getFileDetails(file: RemoteFile, branch: string): Promise<GitLabFileDetails> {
+        const cache = CacheManager.getInstance();
+        const cacheKey = `${this.instanceUrl}/${this.projectPath}:${file.path}:${file.sha}`;
+        const cached = cache.get<GitLabFileDetails>(GitLabClient.DETAILS_CACHE_ID, cacheKey, GitLabClient.DETAILS_CACHE_OPTIONS);
+        if (cached) {
+            return cached;
+        }
+
+        const details: GitLabFileDetails = { size: 0, lastModified: 'Unknown' };
+        try {
+            const fileUrl = `${this.projectEndpoint()}/repository/files/${encodeURIComponent(file.path)}?ref=${encodeURIComponent(branch)}`;
+            const commitsUrl = `${this.projectEndpoint()}/repository/commits?path=${encodeURIComponent(file.path)}&ref_name=${encodeURIComponent(branch)}&per_page=1`;
+            const [fileResponse, commitsResponse] = await Promise.all([
+                this.makeRequest(fileUrl, 'HEAD'),
+                this.makeRequest(commitsUrl)
+            ]);
+
+            details.size = Number(fileResponse.headers?.get('X-Gitlab-Size') || 0);
+            if (commitsResponse.success && commitsResponse.data?.length > 0) {
+                details.lastModified = commitsResponse.data[0].committed_date;
+            }
+            if (fileResponse.success && commitsResponse.success) {
+                cache.set(GitLabClient.DETAILS_CACHE_ID, cacheKey, details, GitLabClient.DETAILS_CACHE_OPTIONS);
+            }
+        } catch (error) {
+            console.warn('Failed to get file details:', error);
+        }
+        return details;
+    }
+
+    /**
+     * 获取项目的默认分支，空项目默认为 main
+     */
+    private async getDefaultBranch(): Promise<string> {
+        const response = await this.makeRequest(this.projectEndpoint());
+        if (!response.success) {
+            throw new Error(response.error || 'Failed to read project');
+        }
+        return response.data.default_branch || 'main';
+    }
+
+    /**
+     * 项目 API 路径，项目路径需要整体编码（group%2Fproject）
+     */
+    private projectEndpoint(): string {
+        return `/projects/${encodeURIComponent(this.projectPath)}`;
+    }
+
+    /**
+     * 发送 API 请求
+     */
+    private async makeRequest(endpoint: string, method = 'GET', body?: any, responseType: 'json' | 'text' = 'json'): Promise<GitLabApiResponse> {
+        const apiUrl = `${this.instanceUrl}/api/v4${endpoint}`;
+        try {
+            const headers: HeadersInit = {
+                'PRIVATE-TOKEN': this.token
+            };
+
+            if (body && (method === 'POST' || method === 'PUT')) {
+                headers['Content-Type'] = 'application/json';
+            }
+
+            console.log(`🌐 发送请求: ${method} ${apiUrl}`);
+            // 通过调度器发送：限制并发，429 和 GET 请求的 5xx 自动退避重试
+            const response = await this.scheduler.execute(async () => {
+                // 每次尝试单独计时
+                const controller = new AbortController();
+                const timeoutId = setTimeout(() => controller.abort(), 30000); // 30秒超时
+
+                const config: RequestInit = {
+                    method,
+                    headers,
+                    signal: controller.signal
+                };
+
+                if (body) {
+                    config.body = JSON.stringify(body);
+                }
+
+                try {
+                    return await fetch(apiUrl, config);
+                } finally {
+                    clearTimeout(timeoutId); // 清除超时定时器
+                }
+            }, method);
+
+            console.log(`📡 响应状态: ${response.status} ${response.statusText}`);
+
+            if (response.status === 401) {
+                return {
+                    success: false,
+                    error: 'Token认证失败，请检查Token是否正确和有效',
+                    status: response.status,
+                    headers: response.headers
+                };
+            }
+
+            if (response.status === 429) {
+                return {
+                    success: false,
+                    error: '请求过于频繁，已多次重试仍被限制，请稍后再试',
+                    status: response.status,
+                    headers: response.headers
+                };
+            }
+
+            if (response.status === 403) {
+                return {
+                    success: false,
+                    error: 'API访问被禁止，请检查Token是否具有 api 权限',
+                    status: response.status,
+                    headers: response.headers
+                };
+            }
+
+            if (response.status === 404) {
+                return {
+                    success: false,
+                    error: '项目或文件不存在，或无访问权限，请检查项目路径和Token权限',
+                    status: response.status,
+                    headers: response.headers
+                };
+            }
+
+            if (method === 'HEAD') {
+                return { success: response.ok, status: response.status, headers: response.headers };
+            }
+
+            if (!response.ok) {
+                const data = await response.json().catch(() => null);
+                const detail = data?.message || data?.error;
+                return {
+                    success: false,
+                    error: detail
+                        ? (typeof detail === 'string' ? detail : JSON.stringify(detail))
+                        : `HTTP ${response.status}: ${response.statusText}`,
+                    status: response.status,
+                    headers: response.headers
+                };
+            }
+
+            return {
+                success: true,
+                data: responseType === 'text' ? await response.text() : await response.json(),
+                status: response.status,
+                headers: response.headers
+            };
+        } catch (error) {
+            if (error instanceof Error && error.name === 'AbortError') {
+                return {
+                    success: false,
+                    error: '请求超时，请检查网络连接稳定性'
+                };
+            }
+
+            if (error instanceof Error && error.message.includes('Failed to fetch')) {
+                return {
+                    success: false,
+                    error: '网络连接失败，请检查GitLab地址、网络连接和防火墙设置'
+                };
+            }
+
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+            console.error('💥 makeRequest错误:', errorMessage);
+            return {
+                success: false,
+                error: errorMessage
+            };
+        }
+    }
+
+    /**
+     * 获取最近一次请求返回的 API 配额信息（gitlab.com 会返回，自建实例可能没有）
+     */
+    getRateLimit(): RateLimitInfo | null {
+        return this.scheduler.getRateLimit();
+    }
+
+    /**
+     * 配额是否已用完且尚未重置
+     */
+    isRateLimited(): boolean {
+        return this.scheduler.isRateLimited();
+    }
+
+    /**
+     * 监听 API 配额变化，返回取消监听的函数
+     */
+    onRateLimitChange(listener: (info: RateLimitInfo) => void): () => void {
+        return this.scheduler.onRateLimitChange(listener);
+    }
+
+    /**
+     * 更新实例地址、token 和项目路径
+     */
+    updateCredentials(instanceUrl: string, token: string, projectPath: string) {
+        this.instanceUrl = instanceUrl.replace(/\/+$/, '');
+        this.token = token;
+        this.projectPath = projectPath;
+    }
+}
@@ -0,0 +1,259 @@
+import { Platform } from 'obsidian';
+import type * as NodeFs from 'fs';
+import type * as NodePath from 'path';
+
+import { HashUtils } from './utils/hash-utils';
+import { RemoteSnippetStore, RemoteFile, RemoteRevision, FileChange } from './remote-snippet-store';
+
+/**
+ * 桌面端 window 上的 Node.js require，只声明用到的模块
+ */
+interface NodeRequire {
+    (id: 'fs'): typeof NodeFs;
+    (id: 'path'): typeof NodePath;
+}
+
+interface DesktopWindow extends Window {
+    require: NodeRequire;
+}
+
+/**
+ * 本地文件夹存储 - 把库外的任意文件夹（团队共享盘、Syncthing 文件夹等）当作云端
+ * 直接读写文件系统，不需要网络；只能在桌面端使用
+ */
+export class LocalFolderStore implements RemoteSnippetStore {
+    readonly displayName = '本地文件夹';
+    private rootPath: string;
+
+    constructor(rootPath: string) {
+        this.rootPath = rootPath;
+    }
+
+    /**
+     * 检查文件夹是否存在且可以写入
+     */
+    async authenticate(): Promise<boolean> {
+        try {
+            const stats = await this.fileSystem.stat(this.rootPath);
+            if (!stats.isDirectory()) {
+                return false;
+            }
+            await this.fileSystem.access(this.rootPath, LocalFolderStore.nodeFs().constants.W_OK);
+            return true;
+        } catch (error) {
+            console.error('Local folder is not accessible:', error);
+            return false;
+        }
+    }
+
+    /**
+     * 递归列出文件夹中的 .css 文件
+     * 版本标识直接根据内容计算，与本地片段比较时不需要再次读取
+     */
+    async listFiles(folder = '', includeLastModified = false): Promise<RemoteFile[]> {
+        try {
+            const startPath = this.resolvePath(folder);
+            if (!(await this.exists(startPath))) {
+                return [];
+            }
+            return await this.listDirectory(startPath, includeLastModified);
+        } catch (error) {
+            console.error('Error listing files:', error);
+            throw error;
+        }
+    }
+
+    async downloadFile(filePath: string): Promise<string> {
+        try {
+            return await this.fileSystem.readFile(this.resolvePath(filePath), 'utf8');
+        } catch (error) {
+            console.error('Error downloading file:', error);
+            throw error;
+        }
+    }
+
+    async uploadFile(filePath: string, content: string, message?: string): Promise<boolean> {
+        await this.commitChanges([{ path: filePath, action: 'add', content }], message);
+        return true;
+    }
+
+    async deleteFile(filePath: string, message?: string): Promise<boolean> {
+        await this.commitChanges([{ path: filePath, action: 'delete' }], message);
+        return true;
+    }
+
+    async renameFile(oldPath: string, newPath: string, content: string, message?: string): Promise<boolean> {
+        await this.commitChanges([
+            { path: newPath, action: 'add', content },
+            { path: oldPath, action: 'delete' }
+        ], message);
+        return true;
+    }
+
+    /**
+     * 先把所有新内容写入临时文件，全部成功后再逐个替换和删除
+     * 写入阶段失败时清理临时文件，文件夹中的片段保持不变
+     */
+    async commitChanges(changes: FileChange[], message?: string): Promise<string> {
+        const path = LocalFolderStore.nodePath();
+        if (changes.length === 0) {
+            throw new Error('No changes to commit');
+        }
+
+        const suffix = `.tmp-${Date.now()}`;
+        const staged: { tempPath: string, targetPath: string }[] = [];
+        try {
+            for (const change of changes) {
+                const targetPath = this.resolvePath(change.path);
+                if (change.action === 'delete') {
+                    if (!(await this.exists(targetPath))) {
+                        throw new Error(`File not found: ${change.path}`);
+                    }
+                    continue;
+                }
+                await this.fileSystem.mkdir(path.dirname(targetPath), { recursive: true });
+                const tempPath = `${targetPath}${suffix}`;
+                await this.fileSystem.writeFile(tempPath, change.content || '', 'utf8');
+                staged.push({ tempPath, targetPath });
+            }
+        } catch (error) {
+            console.error('Error committing changes:', error);
+            await Promise.all(staged.map(({ tempPath }) => this.fileSystem.unlink(tempPath).catch(() => undefined)));
+            throw error;
+        }
+
+        // 同一文件夹内的重命名是原子操作，其他设备不会读到写了一半的文件
+        for (const { tempPath, targetPath } of staged) {
+            await this.fileSystem.rename(tempPath, targetPath);
+        }
+        for (const change of changes) {
+            if (change.action === 'delete') {
+                await this.fileSystem.unlink(this.resolvePath(change.path));
+            }
+        }
+
+        console.log(`📦 已写入 ${changes.length} 个文件的修改${message ? `: ${message.split('\n')[0]}` : ''}`);
+        return new Date().toISOString();
+    }
+
+    /**
+     * 文件夹不保存历史版本，只返回当前版本
+     */
+    async getHistory(filePath: string, limit = 20): Promise<RemoteRevision[]> {
+        const fullPath = this.resolvePath(filePath);
+        if (!(await this.exists(fullPath))) {
+            return [];
+        }
+        const content = await this.fileSystem.readFile(fullPath, 'utf8');
+        const stats = await this.fileSystem.stat(fullPath);
+        return [{ id: this.computeVersion(content), date: stats.mtime.toISOString() }];
+    }
+
+    /**
+     * 只能读取当前版本
+     */
+    async downloadRevision(filePath: string, revisionId: string): Promise<string> {
+        const content = await this.downloadFile(filePath);
+        if (this.computeVersion(content) !== revisionId) {
+            throw new Error(`Revision not found: ${filePath}@${revisionId}`);
+        }
+        return content;
+    }
+
+    computeVersion(content: string): string {
+        return HashUtils.calculateGitBlobSha(content);
+    }
+
+    private async listDirectory(directory: string, includeLastModified: boolean): Promise<RemoteFile[]> {
+        const path = LocalFolderStore.nodePath();
+        const files: RemoteFile[] = [];
+        const entries = await this.fileSystem.readdir(directory, { withFileTypes: true });
+
+        for (const entry of entries) {
+            const fullPath = path.join(directory, entry.name);
+            if (entry.isDirectory()) {
+                // 跳过隐藏文件夹（如 .git、.stfolder）
+                if (!entry.name.startsWith('.')) {
+                    files.push(...await this.listDirectory(fullPath, includeLastModified));
+                }
+                continue;
+            }
+            if (!entry.isFile() || !entry.name.endsWith('.css')) {
+                continue;
+            }
+
+            const content = await this.fileSystem.readFile(fullPath, 'utf8');
+            const stats = await this.fileSystem.stat(fullPath);
+            const relativePath = path.relative(this.rootPath, fullPath).split(path.sep).join('/');
+            files.push({
+                name: entry.name,
+                path: relativePath,
+                sha: this.computeVersion(content),
+                size: stats.size,
+                url: fullPath,
+                content,
+                lastModified: includeLastModified ? stats.mtime.toISOString() : undefined
+            });
+        }
+
+        return files;
+    }
+
+    /**
+     * 把相对路径转换为绝对路径，拒绝指向文件夹之外的路径
+     */
+    private resolvePath(relativePath: string): string {
+        const path = LocalFolderStore.nodePath();
+        const root = path.resolve(this.rootPath);
+        const fullPath = path.resolve(root, relativePath || '.');
+        if (fullPath !== root && !fullPath.startsWith(root + path.sep)) {
+            throw new Error(`路径超出同步文件夹范围: ${relativePath}`);
+        }
+        return fullPath;
+    }
+
+    private async exists(fullPath: string): Promise<boolean> {
+        try {
+            await this.fileSystem.access(fullPath);
+            return true;
+        } catch {
+            return false;
+        }
+    }
+
+    private get fileSystem(): typeof NodeFs.promises {
+        return LocalFolderStore.nodeFs().promises;
+    }
+
+    /**
+     * fs 和 path 只在桌面端存在，使用时才加载，移动端加载插件时不会因为缺少模块而失败
+     */
+    private static nodeRequire(): NodeRequire {
+        if (!Platform.isDesktopApp) {
+            throw new Error('本地文件夹存储只能在桌面端使用');
+        }
+        return (window as unknown as DesktopWindow).require;
+    }
+
+    private static nodeFs(): typeof NodeFs {
+        return LocalFolderStore.nodeRequire()('fs');
+    }
+
+    private static nodePath(): typeof NodePath {
+        return LocalFolderStore.nodeRequire()('path');
+    }
+
+    /**
+     * 同步文件夹必须使用绝对路径，相对路径会随 Obsidian 的工作目录变化
+     */
+    static isAbsolutePath(folderPath: string): boolean {
+        return LocalFolderStore.nodePath().isAbsolute(folderPath);
+    }
+
+    /**
+     * 更新文件夹路径
+     */
+    updatePath(rootPath: string) {
+        this.rootPath = rootPath;
+    }
+}
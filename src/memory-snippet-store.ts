@@ -0,0 +1,147 @@
+import { RemoteSnippetStore, RemoteFile, RemoteRevision, FileChange } from './remote-snippet-store';
+import { HashUtils } from './utils/hash-utils';
+
+interface MemoryCommit {
+    id: string;
+    date: string;
+    message: string;
+    files: Map<string, string>; // 提交后的完整文件快照
+}
+
+/**
+ * 内存存储 - 不连接任何服务，用于测试同步逻辑或离线试用
+ */
+export class MemorySnippetStore implements RemoteSnippetStore {
+    readonly displayName = '内存（测试用）';
+    private files: Map<string, string> = new Map();
+    private commits: MemoryCommit[] = [];
+
+    constructor(initialFiles: Record<string, string> = {}) {
+        for (const [path, content] of Object.entries(initialFiles)) {
+            this.files.set(path, content);
+        }
+        if (this.files.size > 0) {
+            this.recordCommit('Initial files');
+        }
+    }
+
+    async authenticate(): Promise<boolean> {
+        return true;
+    }
+
+    async listFiles(path = '', includeLastModified = false): Promise<RemoteFile[]> {
+        const prefix = path ? `${path.replace(/\/+$/, '')}/` : '';
+        const files: RemoteFile[] = [];
+
+        for (const [filePath, content] of this.files) {
+            if (!filePath.endsWith('.css') || !filePath.startsWith(prefix)) {
+                continue;
+            }
+            files.push({
+                name: filePath.split('/').pop() || filePath,
+                path: filePath,
+                sha: this.computeVersion(content),
+                size: content.length,
+                url: `memory://${filePath}`,
+                lastModified: includeLastModified ? this.getLastModified(filePath) : undefined
+            });
+        }
+
+        return files;
+    }
+
+    async downloadFile(path: string): Promise<string> {
+        const content = this.files.get(path);
+        if (content === undefined) {
+            throw new Error(`File not found: ${path}`);
+        }
+        return content;
+    }
+
+    async uploadFile(path: string, content: string, message?: string): Promise<boolean> {
+        await this.commitChanges([{ path, action: this.files.has(path) ? 'update' : 'add', content }], message);
+        return true;
+    }
+
+    async deleteFile(path: string, message?: string): Promise<boolean> {
+        await this.commitChanges([{ path, action: 'delete' }], message);
+        return true;
+    }
+
+    async renameFile(oldPath: string, newPath: string, content: string, message?: string): Promise<boolean> {
+        await this.commitChanges([
+            { path: newPath, action: 'add', content },
+            { path: oldPath, action: 'delete' }
+        ], message || `Rename ${oldPath} to ${newPath}`);
+        return true;
+    }
+
+    async commitChanges(changes: FileChange[], message?: string): Promise<string> {
+        // 先校验全部修改，保证要么全部写入，要么全部失败
+        for (const change of changes) {
+            if (change.action === 'delete' && !this.files.has(change.path)) {
+                throw new Error(`File not found: ${change.path}`);
+            }
+        }
+
+        for (const change of changes) {
+            if (change.action === 'delete') {
+                this.files.delete(change.path);
+            } else {
+                this.files.set(change.path, change.content || '');
+            }
+        }
+
+        return this.recordCommit(message || `Sync ${changes.length} CSS snippets`);
+    }
+
+    async getHistory(path: string, limit = 20): Promise<RemoteRevision[]> {
+        const revisions: RemoteRevision[] = [];
+        let previous: string | undefined;
+
+        // 从最早的提交开始，记录文件内容发生变化的提交（删除不算作版本）
+        for (const commit of this.commits) {
+            const content = commit.files.get(path);
+            if (content !== undefined && content !== previous) {
+                revisions.push({ id: commit.id, date: commit.date, message: commit.message });
+            }
+            previous = content;
+        }
+
+        return revisions.reverse().slice(0, limit);
+    }
+
+    async downloadRevision(path: string, revisionId: string): Promise<string> {
+        const commit = this.commits.find(c => c.id === revisionId);
+        const content = commit?.files.get(path);
+        if (content === undefined) {
+            throw new Error(`Revision not found: ${path}@${revisionId}`);
+        }
+        return content;
+    }
+
+    computeVersion(content: string): string {
+        return HashUtils.calculateGitBlobSha(content);
+    }
+
+    private recordCommit(message: string): string {
+        const id = `memory-${this.commits.length + 1}`;
+        this.commits.push({
+            id,
+            date: new Date().toISOString(),
+            message,
+            files: new Map(this.files)
+        });
+        return id;
+    }
+
+    private getLastModified(path: string): string {
+        for (let i = this.commits.length - 1; i >= 0; i--) {
+            const previous = i > 0 ? this.commits[i - 1].files.get(path) : undefined;
+            if (this.commits[i].files.get(path) !== previous) {
+                return this.commits[i].date;
+            }
+        }
+        return 'Unknown';
+    }
+}
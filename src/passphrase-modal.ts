@@ -0,0 +1,112 @@
+/**
+ * Token 口令窗口 - 设置新口令（需要输入两次）或输入口令解锁已加密的 Token
+ */
+export class PassphraseModal {
+    private mode: 'set' | 'unlock';
+    // 返回错误信息时窗口保持打开并显示错误，返回 null 表示成功
+    private onSubmit: (passphrase: string) => Promise<string | null>;
+    private overlay: HTMLElement | null = null;
+    private escapeHandler: ((e: KeyboardEvent) => void) | null = null;
+
+    constructor(mode: 'set' | 'unlock', onSubmit: (passphrase: string) => Promise<string | null>) {
+        this.mode = mode;
+        this.onSubmit = onSubmit;
+    }
+
+    open(): void {
+        const overlay = document.body.createDiv({ cls: 'css-snippets-modal-overlay' });
+        this.overlay = overlay;
+
+        const modal = overlay.createDiv({ cls: 'css-snippets-modal' });
+        modal.createEl('h3', {
+            text: this.mode === 'set' ? '设置 Token 加密口令' : '解锁 Token',
+            cls: 'css-snippets-modal-title'
+        });
+        modal.createEl('p', {
+            text: this.mode === 'set'
+                ? 'Token 和密码将使用此口令加密保存，每次启动 Obsidian 后需要输入一次。口令不会被保存，忘记后只能重新填写 Token。'
+                : '输入口令解锁加密保存的 Token，本次会话中不再需要输入。'
+        });
+
+        const passphraseInput = modal.createEl('input', {
+            type: 'password',
+            placeholder: '口令',
+            cls: 'css-snippets-passphrase-input'
+        });
+        const confirmInput = this.mode === 'set'
+            ? modal.createEl('input', { type: 'password', placeholder: '再次输入口令', cls: 'css-snippets-passphrase-input' })
+            : null;
+        const errorEl = modal.createEl('p', { cls: 'css-snippets-passphrase-error' });
+
+        const buttons = modal.createDiv({ cls: 'css-snippets-modal-buttons' });
+        const cancelBtn = buttons.createEl('button', {
+            text: '取消',
+            cls: 'css-snippets-modal-btn css-snippets-modal-btn-cancel'
+        });
+        const submitBtn = buttons.createEl('button', {
+            text: this.mode === 'set' ? '设置' : '解锁',
+            cls: 'css-snippets-modal-btn css-snippets-modal-btn-primary'
+        });
+
+        const submit = async () => {
+            if (submitBtn.disabled) {
+                return;
+            }
+            const passphrase = passphraseInput.value;
+            if (!passphrase) {
+                errorEl.textContent = '口令不能为空';
+                return;
+            }
+            if (confirmInput && confirmInput.value !== passphrase) {
+                errorEl.textContent = '两次输入的口令不一致';
+                return;
+            }
+
+            submitBtn.disabled = true;
+            errorEl.textContent = '';
+            try {
+                const error = await this.onSubmit(passphrase);
+                if (error) {
+                    errorEl.textContent = error;
+                    passphraseInput.select();
+                } else {
+                    this.close();
+                }
+            } catch (error) {
+                console.error('Error applying passphrase:', error);
+                errorEl.textContent = error instanceof Error ? error.message : '未知错误';
+            } finally {
+                submitBtn.disabled = false;
+            }
+        };
+
+        cancelBtn.onclick = () => this.close();
+        submitBtn.onclick = submit;
+
+        // 回车提交，ESC键关闭
+        this.escapeHandler = (e: KeyboardEvent) => {
+            if (e.key === 'Escape') {
+                this.close();
+            } else if (e.key === 'Enter') {
+                submit();
+            }
+        };
+        document.addEventListener('keydown', this.escapeHandler);
+
+        passphraseInput.focus();
+    }
+
+    private close(): void {
+        if (this.escapeHandler) {
+            document.removeEventListener('keydown', this.escapeHandler);
+            this.escapeHandler = null;
+        }
+
+        const overlay = this.overlay;
+        if (overlay) {
+            this.overlay = null;
+            overlay.classList.add('closing');
+            setTimeout(() => overlay.remove(), 150);
+        }
+    }
+}
@@ -0,0 +1,101 @@
+import { RateLimitInfo } from './utils/request-scheduler';
+
+/**
+ * 远程存储中的单个片段文件
+ */
+export interface RemoteFile {
+    name: string;
+    path: string;
+    sha: string; // 版本标识（GitHub 为 git blob SHA，其他后端为 ETag 等）
+    size: number;
+    url: string;
+    content?: string;
+    lastModified?: string;
+}
+
+/**
+ * 批量提交中的单个文件修改
+ */
+export interface FileChange {
+    path: string;
+    action: 'add' | 'update' | 'delete';
+    content?: string; // 删除时不需要
+}
+
+/**
+ * 生成批量提交的摘要信息，供各后端在调用方未提供提交信息时使用
+ */
+export function summarizeChanges(changes: FileChange[]): string {
+    const groups: Record<FileChange['action'], string[]> = { add: [], update: [], delete: [] };
+    for (const change of changes) {
+        groups[change.action].push(change.path.split('/').pop() || change.path);
+    }
+
+    const parts = (Object.keys(groups) as FileChange['action'][])
+        .filter(action => groups[action].length > 0)
+        .map(action => `${action}: ${groups[action].join(', ')}`);
+    const title = `Sync ${changes.length} CSS snippet${changes.length > 1 ? 's' : ''}`;
+    return `${title}\n\n${parts.join('\n')}`;
+}
+
+/**
+ * 文件的一个历史版本
+ */
+export interface RemoteRevision {
+    id: string;
+    date: string;
+    message?: string;
+    author?: string;
+}
+
+/**
+ * 远程片段存储 - 同步逻辑只依赖此接口，不关心具体的存储后端
+ */
+export interface RemoteSnippetStore {
+    readonly displayName: string;
+
+    /**
+     * 验证连接和凭据
+     */
+    authenticate(): Promise<boolean>;
+
+    /**
+     * 列出所有 .css 文件，includeLastModified 为 true 时附带最后修改时间
+     */
+    listFiles(path?: string, includeLastModified?: boolean): Promise<RemoteFile[]>;
+
+    downloadFile(path: string): Promise<string>;
+
+    uploadFile(path: string, content: string, message?: string): Promise<boolean>;
+
+    deleteFile(path: string, message?: string): Promise<boolean>;
+
+    renameFile(oldPath: string, newPath: string, content: string, message?: string): Promise<boolean>;
+
+    /**
+     * 将多个修改作为一次提交写入，要么全部成功，要么全部失败；返回新版本的标识
+     */
+    commitChanges(changes: FileChange[], message?: string): Promise<string>;
+
+    /**
+     * 获取文件的历史版本（最新的在前）
+     */
+    getHistory(path: string, limit?: number): Promise<RemoteRevision[]>;
+
+    /**
+     * 读取文件在某个历史版本的内容
+     */
+    downloadRevision(path: string, revisionId: string): Promise<string>;
+
+    /**
+     * 根据本地内容计算与 RemoteFile.sha 相同格式的版本标识，用于免下载比较
+     * 后端无法在本地计算版本标识时不实现此方法
+     */
+    computeVersion?(content: string): string;
+
+    getRateLimit?(): RateLimitInfo | null;
+
+    isRateLimited?(): boolean;
+
+    onRateLimitChange?(listener: (info: RateLimitInfo) => void): () => void;
+}
@@ -0,0 +1,394 @@
+import { SecurityUtils } from './security-utils';
+import { AwsSigner } from './utils/aws-signer';
+import { CacheManager, CacheOptions } from './utils/cache-manager';
+import { HttpResponse, HttpTransport, obsidianTransport, sendWithTimeout } from './utils/http-transport';
+import { XmlUtils } from './utils/xml-utils';
+import { RemoteSnippetStore, RemoteFile, RemoteRevision, FileChange } from './remote-snippet-store';
+
+interface CachedContent {
+    etag: string;
+    content: string;
+}
+
+/**
+ * S3 兼容存储 - 将片段作为对象保存在 AWS S3、MinIO、Cloudflare R2 等存储桶中
+ * 请求使用 Signature V4 签名，统一使用路径风格的地址（{endpoint}/{bucket}/{key}），各服务均支持
+ * 以对象的 ETag 作为版本标识；存储桶开启版本控制后，对象的历史版本即片段的历史版本
+ */
+export class S3Client implements RemoteSnippetStore {
+    static readonly CONTENT_CACHE_ID = 's3-content';
+    // 缓存内容由 ETag 校验，只需控制条目数量
+    private static readonly CONTENT_CACHE_OPTIONS: CacheOptions = {
+        expiryMs: 30 * 24 * 60 * 60 * 1000,
+        maxItems: 2000
+    };
+
+    readonly displayName = 'S3 兼容存储';
+    private endpoint: string;
+    private region: string;
+    private bucket: string;
+    private prefix: string;
+    private accessKeyId: string;
+    private secretAccessKey: string;
+    private transport: HttpTransport;
+    private knownEtags: Map<string, string> = new Map(); // 最近一次列表中每个文件的 ETag
+
+    constructor(
+        endpoint: string,
+        region: string,
+        bucket: string,
+        prefix: string,
+        accessKeyId: string,
+        secretAccessKey: string,
+        transport: HttpTransport = obsidianTransport
+    ) {
+        this.transport = transport;
+        this.updateCredentials(endpoint, region, bucket, prefix, accessKeyId, secretAccessKey);
+    }
+
+    /**
+     * 验证凭据：能够列出存储桶中的对象即认为成功
+     */
+    async authenticate(): Promise<boolean> {
+        try {
+            const response = await this.request('GET', '', { 'list-type': '2', 'max-keys': '1', 'prefix': this.prefix });
+            if (response.status !== 200) {
+                throw new Error(this.describeError(response));
+            }
+            return true;
+        } catch (error) {
+            SecurityUtils.logError(error, 'S3 authentication failed');
+            return false;
+        }
+    }
+
+    /**
+     * 列出前缀下的 .css 对象，ListObjectsV2 已经返回 ETag 和修改时间，不需要额外请求
+     */
+    async listFiles(path = '', includeLastModified = false): Promise<RemoteFile[]> {
+        try {
+            const folder = path.replace(/^\/+|\/+$/g, '');
+            const listPrefix = this.prefix + (folder ? `${folder}/` : '');
+            const files: RemoteFile[] = [];
+            let continuationToken: string | undefined;
+
+            do {
+                const query: Record<string, string> = { 'list-type': '2', 'prefix': listPrefix };
+                if (continuationToken) {
+                    query['continuation-token'] = continuationToken;
+                }
+                const response = await this.request('GET', '', query);
+                if (response.status !== 200) {
+                    throw new Error(this.describeError(response));
+                }
+
+                for (const block of XmlUtils.getBlocks(response.text, 'Contents')) {
+                    const key = XmlUtils.getValue(block, 'Key');
+                    if (!key.endsWith('.css')) {
+                        continue;
+                    }
+                    const filePath = key.slice(this.prefix.length);
+                    const etag = this.normalizeEtag(XmlUtils.getValue(block, 'ETag'));
+                    this.knownEtags.set(filePath, etag);
+                    files.push({
+                        name: filePath.split('/').pop() || filePath,
+                        path: filePath,
+                        sha: etag,
+                        size: Number(XmlUtils.getValue(block, 'Size') || 0),
+                        url: this.objectUrl(key),
+                        lastModified: includeLastModified ? this.toIsoDate(XmlUtils.getValue(block, 'LastModified')) : undefined
+                    });
+                }
+
+                continuationToken = XmlUtils.getValue(response.text, 'IsTruncated') === 'true'
+                    ? XmlUtils.getValue(response.text, 'NextContinuationToken') || undefined
+                    : undefined;
+            } while (continuationToken);
+
+            return files;
+        } catch (error) {
+            console.error('Error listing files:', error);
+            throw error;
+        }
+    }
+
+    /**
+     * 下载对象内容，带上缓存的 ETag，未修改时服务器返回 304 直接使用缓存
+     */
+    async downloadFile(path: string): Promise<string> {
+        try {
+            const cache = CacheManager.getInstance();
+            const cacheKey = this.objectUrl(this.toKey(path));
+            const cached = cache.get<CachedContent>(S3Client.CONTENT_CACHE_ID, cacheKey, S3Client.CONTENT_CACHE_OPTIONS);
+
+            // 缓存的 ETag 与列表中的一致时无需请求
+            if (cached && cached.etag === this.knownEtags.get(path)) {
+                return cached.content;
+            }
+
+            const headers: Record<string, string> = cached ? { 'If-None-Match': `"${cached.etag}"` } : {};
+            const response = await this.request('GET', this.toKey(path), {}, headers);
+
+            if (response.status === 304 && cached) {
+                return cached.content;
+            }
+            if (response.status !== 200) {
+                throw new Error(this.describeError(response));
+            }
+            this.checkFileSize(response.text);
+
+            const etag = this.normalizeEtag(response.headers['etag']);
+            if (etag) {
+                this.knownEtags.set(path, etag);
+                cache.set<CachedContent>(S3Client.CONTENT_CACHE_ID, cacheKey, { etag, content: response.text }, S3Client.CONTENT_CACHE_OPTIONS);
+            }
+            return response.text;
+        } catch (error) {
+            console.error('Error downloading file:', error);
+            throw error;
+        }
+    }
+
+    /**
+     * 上传或更新文件
+     */
+    async uploadFile(path: string, content: string, message?: string): Promise<boolean> {
+        await this.commitChanges([{ path, action: 'add', content }], message);
+        return true;
+    }
+
+    /**
+     * 删除文件（开启版本控制时只添加删除标记，历史版本仍然保留）
+     */
+    async deleteFile(path: string, message?: string): Promise<boolean> {
+        await this.commitChanges([{ path, action: 'delete' }], message);
+        return true;
+    }
+
+    /**
+     * 重命名文件：S3 没有重命名操作，先写入新对象再删除旧对象，失败时回滚
+     */
+    async renameFile(oldPath: string, newPath: string, content: string, message?: string): Promise<boolean> {
+        await this.commitChanges([
+            { path: newPath, action: 'add', content },
+            { path: oldPath, action: 'delete' }
+        ], message);
+        return true;
+    }
+
+    /**
+     * 依次写入多个修改。S3 没有事务，任何一项失败时把已完成的修改恢复原状
+     * 没有提交的概念，返回完成时间作为版本标识
+     */
+    async commitChanges(changes: FileChange[], message?: string): Promise<string> {
+        if (changes.length === 0) {
+            throw new Error('No changes to commit');
+        }
+
+        const applied: { change: FileChange, previous: string | null }[] = [];
+        try {
+            for (const change of changes) {
+                // 记录修改前的内容用于回滚
+                const previous = this.knownEtags.has(change.path) ? await this.downloadFile(change.path) : null;
+
+                if (change.action === 'delete') {
+                    await this.deleteObject(change.path);
+                } else {
+                    await this.putObject(change.path, change.content || '');
+                }
+                applied.push({ change, previous });
+            }
+        } catch (error) {
+            console.error('Error committing changes:', error);
+            await this.rollback(applied);
+            throw error;
+        }
+
+        console.log(`📦 已写入 ${changes.length} 个对象的修改${message ? `: ${message.split('\n')[0]}` : ''}`);
+        return new Date().toISOString();
+    }
+
+    /**
+     * 获取对象的历史版本（需要存储桶开启版本控制，否则只有当前版本）
+     * 删除标记不是可读取的版本，跳过
+     */
+    async getHistory(path: string, limit = 20): Promise<RemoteRevision[]> {
+        const key = this.toKey(path);
+        const response = await this.request('GET', '', { 'versions': '', 'prefix': key, 'max-keys': '1000' });
+        if (response.status !== 200) {
+            throw new Error(this.describeError(response));
+        }
+
+        const revisions: RemoteRevision[] = [];
+        for (const block of XmlUtils.getBlocks(response.text, 'Version')) {
+            // 前缀匹配会包含以该路径开头的其他对象
+            if (XmlUtils.getValue(block, 'Key') !== key) {
+                continue;
+            }
+            revisions.push({
+                id: XmlUtils.getValue(block, 'VersionId'),
+                date: XmlUtils.getValue(block, 'LastModified'),
+                author: XmlUtils.getValue(block, 'DisplayName') || undefined
+            });
+        }
+
+        return revisions
+            .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime())
+            .slice(0, limit);
+    }
+
+    /**
+     * 读取对象的某个历史版本
+     */
+    async downloadRevision(path: string, revisionId: string): Promise<string> {
+        const response = await this.request('GET', this.toKey(path), { 'versionId': revisionId });
+        if (response.status === 404) {
+            throw new Error(`Revision not found: ${path}@${revisionId}`);
+        }
+        if (response.status !== 200) {
+            throw new Error(this.describeError(response));
+        }
+        this.checkFileSize(response.text);
+        return response.text;
+    }
+
+    private async putObject(path: string, content: string): Promise<void> {
+        const response = await this.request('PUT', this.toKey(path), {}, { 'Content-Type': 'text/css; charset=utf-8' }, content);
+        if (response.status !== 200) {
+            throw new Error(`${path}: ${this.describeError(response)}`);
+        }
+
+        const etag = this.normalizeEtag(response.headers['etag']);
+        if (etag) {
+            this.knownEtags.set(path, etag);
+            CacheManager.getInstance().set<CachedContent>(S3Client.CONTENT_CACHE_ID, this.objectUrl(this.toKey(path)), { etag, content }, S3Client.CONTENT_CACHE_OPTIONS);
+        } else {
+            this.knownEtags.delete(path);
+        }
+    }
+
+    private async deleteObject(path: string): Promise<void> {
+        const response = await this.request('DELETE', this.toKey(path));
+        // 删除不存在的对象同样返回 204
+        if (response.status !== 204 && response.status !== 200) {
+            throw new Error(`${path}: ${this.describeError(response)}`);
+        }
+        this.knownEtags.delete(path);
+        CacheManager.getInstance().delete(S3Client.CONTENT_CACHE_ID, this.objectUrl(this.toKey(path)));
+    }
+
+    /**
+     * 按相反顺序撤销已完成的修改
+     */
+    private async rollback(applied: { change: FileChange, previous: string | null }[]): Promise<void> {
+        for (const { change, previous } of applied.reverse()) {
+            try {
+                if (previous === null) {
+                    await this.deleteObject(change.path);
+                } else {
+                    await this.putObject(change.path, previous);
+                }
+            } catch (error) {
+                console.error(`回滚 ${change.path} 失败:`, error);
+            }
+        }
+    }
+
+    private checkFileSize(content: string): void {
+        // 文件大小限制 (10MB)
+        const MAX_FILE_SIZE = 10 * 1024 * 1024;
+        if (content.length > MAX_FILE_SIZE) {
+            throw new Error(`文件过大 (${Math.round(content.length / 1024 / 1024)}MB)，最大允许10MB`);
+        }
+    }
+
+    /**
+     * 根据状态码和 XML 错误响应中的错误代码生成提示
+     */
+    private describeError(response: HttpResponse): string {
+        const code = XmlUtils.getValue(response.text, 'Code');
+        switch (code) {
+            case 'NoSuchBucket':
+                return '存储桶不存在，请检查存储桶名称';
+            case 'InvalidAccessKeyId':
+                return 'Access Key ID 无效';
+            case 'SignatureDoesNotMatch':
+                return 'Secret Access Key 错误，或区域设置不正确';
+            case 'AuthorizationHeaderMalformed':
+                return '区域设置不正确，请检查区域（Cloudflare R2 使用 auto）';
+            case 'AccessDenied':
+                return '没有访问权限，请检查密钥的存储桶权限';
+            case 'RequestTimeTooSkewed':
+                return '本机时间与服务器相差过大，请校准系统时间';
+        }
+
+        switch (response.status) {
+            case 301:
+                return '存储桶不在该区域，请检查服务地址和区域';
+            case 403:
+                return '没有访问权限，请检查密钥的存储桶权限';
+            case 404:
+                return '对象不存在';
+            default:
+                return code ? `HTTP ${response.status} (${code})` : `HTTP ${response.status}`;
+        }
+    }
+
+    /**
+     * 去掉 ETag 的引号，便于比较
+     */
+    private normalizeEtag(etag: string | undefined): string {
+        return (etag || '').replace(/^W\//, '').replace(/^"|"$/g, '');
+    }
+
+    /**
+     * 部分兼容服务返回的修改时间可能缺失或无法解析，此时返回空字符串
+     */
+    private toIsoDate(value: string): string {
+        const date = new Date(value);
+        return isNaN(date.getTime()) ? '' : date.toISOString();
+    }
+
+    private toKey(path: string): string {
+        return this.prefix + path.replace(/^\/+/, '');
+    }
+
+    private objectUrl(key: string): string {
+        const encodedKey = key.split('/').map(segment => AwsSigner.encodeRfc3986(segment)).join('/');
+        return `${this.endpoint}/${encodeURIComponent(this.bucket)}${encodedKey ? `/${encodedKey}` : ''}`;
+    }
+
+    /**
+     * 发送签名后的 S3 请求
+     */
+    private async request(method: string, key: string, query: Record<string, string> = {}, headers: Record<string, string> = {}, body?: string): Promise<HttpResponse> {
+        const queryString = Object.entries(query)
+            .map(([name, value]) => value === '' ? AwsSigner.encodeRfc3986(name) : `${AwsSigner.encodeRfc3986(name)}=${AwsSigner.encodeRfc3986(value)}`)
+            .join('&');
+        const url = `${this.objectUrl(key)}${queryString ? `?${queryString}` : ''}`;
+        const signedHeaders = await AwsSigner.sign(
+            { accessKeyId: this.accessKeyId, secretAccessKey: this.secretAccessKey, region: this.region, service: 's3' },
+            { method, url, headers, body }
+        );
+
+        console.log(`🌐 发送请求: ${method} ${url}`);
+        const response = await sendWithTimeout(this.transport, { url, method, headers: signedHeaders, body });
+        console.log(`📡 响应状态: ${response.status}`);
+        return response;
+    }
+
+    /**
+     * 更新服务地址、存储桶和密钥
+     */
+    updateCredentials(endpoint: string, region: string, bucket: string, prefix: string, accessKeyId: string, secretAccessKey: string) {
+        this.endpoint = endpoint.trim().replace(/\/+$/, '');
+        this.region = region.trim() || 'us-east-1';
+        this.bucket = bucket.trim();
+        // 前缀统一为 "folder/" 形式，空前缀表示存储桶根目录
+        const trimmedPrefix = prefix.trim().replace(/^\/+|\/+$/g, '');
+        this.prefix = trimmedPrefix ? `${trimmedPrefix}/` : '';
+        this.accessKeyId = accessKeyId.trim();
+        this.secretAccessKey = secretAccessKey;
+        this.knownEtags.clear();
+    }
+}
@@ -1,3 +1,8 @@
+/**
+ * GitHub Token 类型
+ */
+export type GitHubTokenType = 'classic' | 'fine-grained' | 'oauth' | 'app' | 'unknown';
+
 /**
  * 安全工具类 - 处理敏感数据的加密存储和安全操作
  */
@@ -106,10 +111,12 @@ export class SecurityUtils {
         // GitHub Personal Access Token格式验证
         // 经典Token: ghp_xxxx (40个字符)
         // Fine-grained Token: github_pat_xxxx
+        // 使用 GitHub 登录获得的 OAuth Token: gho_xxxx
         const classicTokenPattern = /^ghp_[a-zA-Z0-9]{36}$/;
         const fineGrainedTokenPattern = /^github_pat_[a-zA-Z0-9_]{82}$/;
+        const oauthTokenPattern = /^gho_[a-zA-Z0-9]{36}$/;
         
-        if (classicTokenPattern.test(token) || fineGrainedTokenPattern.test(token)) {
+        if (classicTokenPattern.test(token) || fineGrainedTokenPattern.test(token) || oauthTokenPattern.test(token)) {
             return { valid: true, message: 'Token格式正确' };
         }
         
@@ -118,11 +125,31 @@ export class SecurityUtils {
             message: 'Token格式不正确，请确保是有效的GitHub Personal Access Token' 
         };
     }
-    
+
+    /**
+     * 根据前缀判断 GitHub Token 类型
+     * 经典 Token 和 OAuth Token 使用 scope 授权，细粒度 Token 和 App Token 使用按仓库的权限
+     */
+    static getGitHubTokenType(token: string): GitHubTokenType {
+        if (token.startsWith('ghp_')) {
+            return 'classic';
+        }
+        if (token.startsWith('github_pat_')) {
+            return 'fine-grained';
+        }
+        if (token.startsWith('gho_')) {
+            return 'oauth';
+        }
+        if (token.startsWith('ghu_') || token.startsWith('ghs_')) {
+            return 'app';
+        }
+        return 'unknown';
+    }
+
     /**
      * 验证GitHub仓库URL格式
      */
-    static validateGitHubRepoUrl(url: string): { valid: boolean; message: string; owner?: string; repo?: string } {
+    static validateGitHubRepoUrl(url: string): { valid: boolean; message: string; owner?: string; repo?: string; host?: string } {
         if (!url) {
             return { valid: false, message: '仓库URL不能为空' };
         }
@@ -130,31 +157,227 @@ export class SecurityUtils {
         // 支持的URL格式：
         // https://github.com/owner/repo
         // https://github.com/owner/repo.git
+        // https://github.example.com/owner/repo（GitHub Enterprise Server）
+        // owner/repo
+        const urlMatch = url.match(/^https:\/\/([a-zA-Z0-9.-]+(?::\d+)?)\/([a-zA-Z0-9_.-]+)\/([a-zA-Z0-9_.-]+)\/?$/);
+        if (urlMatch) {
+            const [, host, owner, repo] = urlMatch;
+            return {
+                valid: true,
+                message: '仓库URL格式正确',
+                owner,
+                repo: repo.replace('.git', ''),
+                host: host.toLowerCase()
+            };
+        }
+
+        const pathMatch = url.match(/^([a-zA-Z0-9_.-]+)\/([a-zA-Z0-9_.-]+)$/);
+        if (pathMatch) {
+            const [, owner, repo] = pathMatch;
+            return {
+                valid: true,
+                message: '仓库URL格式正确',
+                owner,
+                repo: repo.replace('.git', '')
+            };
+        }
+        
+        return {
+            valid: false,
+            message: '仓库URL格式不正确，支持格式：https://github.com/owner/repo、https://<企业版地址>/owner/repo 或 owner/repo'
+        };
+    }
+
+    /**
+     * 确定 GitHub API 地址：优先使用填写的地址，否则根据仓库 URL 的主机推断
+     * github.com 使用 https://api.github.com，GitHub Enterprise Server 使用 https://<主机>/api/v3
+     */
+    static resolveGitHubApiUrl(repoUrl: string, apiUrl = ''): { valid: boolean; message: string; apiUrl?: string } {
+        if (apiUrl.trim()) {
+            const normalized = this.normalizeInstanceUrl(apiUrl);
+            if (!normalized) {
+                return { valid: false, message: 'API地址格式不正确，例如：https://github.example.com/api/v3' };
+            }
+            return { valid: true, message: 'API地址格式正确', apiUrl: normalized };
+        }
+
+        const host = this.validateGitHubRepoUrl(repoUrl).host;
+        if (!host || host === 'github.com' || host === 'www.github.com') {
+            return { valid: true, message: '使用 GitHub.com API', apiUrl: 'https://api.github.com' };
+        }
+        return { valid: true, message: '使用 GitHub Enterprise API', apiUrl: `https://${host}/api/v3` };
+    }
+
+    /**
+     * 验证GitLab实例地址和项目路径
+     */
+    static validateGitLabProject(instanceUrl: string, project: string): { valid: boolean; message: string; instanceUrl?: string; projectPath?: string } {
+        const normalizedInstance = this.normalizeInstanceUrl(instanceUrl);
+        if (!normalizedInstance) {
+            return { valid: false, message: 'GitLab地址格式不正确，例如：https://gitlab.com' };
+        }
+
+        if (!project) {
+            return { valid: false, message: '项目路径不能为空' };
+        }
+
+        // 支持的项目格式：
+        // https://gitlab.com/group/subgroup/project
+        // https://gitlab.com/group/project.git
+        // group/subgroup/project
+        let projectPath = project.trim();
+        if (projectPath.startsWith(`${normalizedInstance}/`)) {
+            projectPath = projectPath.slice(normalizedInstance.length + 1);
+        }
+        projectPath = projectPath.replace(/\.git$/, '').replace(/\/+$/, '');
+
+        if (!/^[a-zA-Z0-9_.-]+(?:\/[a-zA-Z0-9_.-]+)+$/.test(projectPath)) {
+            return {
+                valid: false,
+                message: '项目路径格式不正确，支持格式：https://gitlab.com/group/project 或 group/project'
+            };
+        }
+
+        return {
+            valid: true,
+            message: '项目路径格式正确',
+            instanceUrl: normalizedInstance,
+            projectPath
+        };
+    }
+
+    /**
+     * 验证Gitea/Forgejo实例地址和仓库路径
+     */
+    static validateGiteaRepo(baseUrl: string, repo: string): { valid: boolean; message: string; baseUrl?: string; owner?: string; repo?: string } {
+        const normalizedBase = this.normalizeInstanceUrl(baseUrl);
+        if (!normalizedBase) {
+            return { valid: false, message: 'Gitea地址格式不正确，例如：https://gitea.example.com' };
+        }
+
+        // 支持的仓库格式：
+        // https://gitea.example.com/owner/repo
+        // https://gitea.example.com/owner/repo.git
         // owner/repo
+        let repoPath = (repo || '').trim();
+        if (repoPath.startsWith(`${normalizedBase}/`)) {
+            repoPath = repoPath.slice(normalizedBase.length + 1);
+        }
+        const match = repoPath.replace(/\/+$/, '').match(/^([a-zA-Z0-9_.-]+)\/([a-zA-Z0-9_.-]+?)(?:\.git)?$/);
+        if (!match) {
+            return {
+                valid: false,
+                message: '仓库路径格式不正确，支持格式：https://gitea.example.com/owner/repo 或 owner/repo'
+            };
+        }
+
+        return {
+            valid: true,
+            message: '仓库路径格式正确',
+            baseUrl: normalizedBase,
+            owner: match[1],
+            repo: match[2]
+        };
+    }
+
+    /**
+     * 验证Gist ID或Gist链接
+     */
+    static validateGistId(input: string): { valid: boolean; message: string; gistId?: string } {
+        if (!input) {
+            return { valid: false, message: 'Gist ID不能为空' };
+        }
+
+        // 支持的格式：
+        // https://gist.github.com/user/0123456789abcdef0123
+        // https://gist.github.com/0123456789abcdef0123
+        // 0123456789abcdef0123
         const patterns = [
-            /^https:\/\/github\.com\/([a-zA-Z0-9_.-]+)\/([a-zA-Z0-9_.-]+)(?:\.git)?$/,
-            /^([a-zA-Z0-9_.-]+)\/([a-zA-Z0-9_.-]+)$/
+            /^https:\/\/gist\.github\.com\/(?:[a-zA-Z0-9-]+\/)?([0-9a-f]{20,32})(?:\.git)?\/?(?:#.*)?$/i,
+            /^([0-9a-f]{20,32})$/i
         ];
-        
+
         for (const pattern of patterns) {
-            const match = url.match(pattern);
+            const match = input.trim().match(pattern);
             if (match) {
-                const [, owner, repo] = match;
-                return {
-                    valid: true,
-                    message: '仓库URL格式正确',
-                    owner,
-                    repo: repo.replace('.git', '')
-                };
+                return { valid: true, message: 'Gist ID格式正确', gistId: match[1].toLowerCase() };
             }
         }
-        
+
         return {
             valid: false,
-            message: '仓库URL格式不正确，支持格式：https://github.com/owner/repo 或 owner/repo'
+            message: 'Gist ID格式不正确，支持格式：https://gist.github.com/user/<ID> 或 Gist ID'
         };
     }
-    
+
+    /**
+     * 验证WebDAV文件夹地址
+     */
+    static validateWebDAVUrl(url: string): { valid: boolean; message: string } {
+        if (!url) {
+            return { valid: false, message: 'WebDAV地址不能为空' };
+        }
+
+        try {
+            const parsed = new URL(url.trim());
+            if (parsed.protocol !== 'https:' && parsed.protocol !== 'http:') {
+                return { valid: false, message: 'WebDAV地址必须以 https:// 或 http:// 开头' };
+            }
+            if (parsed.username || parsed.password) {
+                return { valid: false, message: '请不要在地址中包含用户名或密码，请填写到对应的设置项中' };
+            }
+            return {
+                valid: true,
+                message: parsed.protocol === 'http:' ? 'WebDAV地址格式正确（未加密连接，密码会以明文传输）' : 'WebDAV地址格式正确'
+            };
+        } catch {
+            return { valid: false, message: 'WebDAV地址格式不正确，例如：https://cloud.example.com/remote.php/dav/files/user/css-snippets' };
+        }
+    }
+
+    /**
+     * 验证分支名称是否符合 git 的引用命名规则
+     */
+    static validateBranchName(branch: string): { valid: boolean; message: string } {
+        const name = (branch || '').trim();
+        if (!name) {
+            return { valid: false, message: '分支名称不能为空' };
+        }
+        if (/[\s~^:?*[\\]|\.\.|@\{|\/\/|^[/.-]|[/.]$|\.lock$/.test(name)) {
+            return { valid: false, message: '分支名称格式不正确，不能包含空格、~^:?*[\\、..，也不能以 / 或 . 开头或结尾' };
+        }
+        return { valid: true, message: '分支名称格式正确' };
+    }
+
+    /**
+     * 验证 S3 兼容存储的服务地址和存储桶名称
+     */
+    static validateS3Config(endpoint: string, bucket: string): { valid: boolean; message: string; endpoint?: string } {
+        const normalizedEndpoint = this.normalizeInstanceUrl(endpoint);
+        if (!normalizedEndpoint) {
+            return { valid: false, message: '服务地址格式不正确，例如：https://s3.us-east-1.amazonaws.com 或 http://localhost:9000' };
+        }
+
+        // 存储桶命名规则：3-63 个字符，小写字母、数字、点和连字符，以字母或数字开头和结尾
+        if (!/^[a-z0-9][a-z0-9.-]{1,61}[a-z0-9]$/.test((bucket || '').trim())) {
+            return { valid: false, message: '存储桶名称格式不正确，只能包含小写字母、数字、点和连字符（3-63个字符）' };
+        }
+
+        return {
+            valid: true,
+            message: normalizedEndpoint.startsWith('http:') ? 'S3配置格式正确（未加密连接）' : 'S3配置格式正确',
+            endpoint: normalizedEndpoint
+        };
+    }
+
+    /**
+     * 规范化自建实例地址，允许端口和子路径（如 https://example.com/gitlab），格式不正确时返回 null
+     */
+    private static normalizeInstanceUrl(url: string): string | null {
+        const match = (url || '').trim().match(/^(https?:\/\/[a-zA-Z0-9.-]+(?::\d+)?(?:\/[a-zA-Z0-9_.~-]+)*)\/*$/);
+        return match ? match[1] : null;
+    }
+
     /**
      * 安全地处理文件路径，防止路径遍历攻击
      */
@@ -1,31 +1,83 @@
 import { Notice } from 'obsidian';
-import { GitHubClient, GitHubFile } from './github-client';
+import { RemoteSnippetStore, RemoteFile, FileChange } from './remote-snippet-store';
 import { LocalSnippetsManager, LocalSnippet } from './local-snippets-manager';
 import { HashUtils } from './utils/hash-utils';
 import { IncrementalSyncManager, IncrementalSyncResult } from './utils/incremental-sync-manager';
+import { SyncStateManager, SnippetChangeState } from './sync-state-manager';
+import { CSSMergeEngine, CSSMergeResult } from './utils/css-merge';
+import { DescriptionManager } from './description-manager';
 
 export interface SyncResult {
     success: boolean;
     message: string;
     conflicts?: string[];
     details?: any;
+    plan?: SyncPlan;
 }
 
 export interface SyncOptions {
     forceOverwrite?: boolean;
     selectedFiles?: string[];
     useSecureHash?: boolean;
+    // 删除传播前的确认回调；未提供时（如自动同步）删除会被推迟，并在结果中报告
+    confirmDeletions?: (deletions: PendingDeletion[]) => Promise<boolean>;
+    detectRenames?: boolean; // 同步前是否检测重命名，默认开启
+    planOnly?: boolean; // 只生成同步计划，不修改本地或云端
+}
+
+export interface PendingDeletion {
+    filename: string;
+    path: string;
+    target: 'local' | 'cloud'; // 需要删除哪一侧的文件
+}
+
+export interface DetectedRename {
+    from: string;
+    to: string;
+    target: 'local' | 'cloud'; // 需要在哪一侧执行重命名
+    path: string; // 云端路径：云端重命名时为旧文件路径，本地重命名时为新文件路径
+    content: string;
+}
+
+export type SyncDirection = 'bidirectional' | 'toCloud' | 'fromCloud';
+
+export type SyncActionType = 'upload' | 'update' | 'download' | 'rename' | 'delete-local' | 'delete-cloud' | 'skip' | 'conflict';
+
+export interface SyncAction {
+    type: SyncActionType;
+    filename: string;
+    path: string; // 云端路径
+    reason: string;
+    rename?: DetectedRename;
+}
+
+/**
+ * 同步计划：预览同步将执行的所有操作，执行前可以逐项取消
+ */
+export interface SyncPlan {
+    direction: SyncDirection;
+    actions: SyncAction[];
+    createdAt: number;
 }
 
 export class SyncManager {
-    private githubClient: GitHubClient;
+    private remoteStore: RemoteSnippetStore;
     private localManager: LocalSnippetsManager;
     private incrementalSyncManager: IncrementalSyncManager;
+    private syncState: SyncStateManager;
+    private descriptionManager: DescriptionManager;
 
-    constructor(githubClient: GitHubClient, localManager: LocalSnippetsManager) {
-        this.githubClient = githubClient;
+    constructor(
+        remoteStore: RemoteSnippetStore,
+        localManager: LocalSnippetsManager,
+        syncState: SyncStateManager,
+        descriptionManager: DescriptionManager
+    ) {
+        this.remoteStore = remoteStore;
         this.localManager = localManager;
-        this.incrementalSyncManager = new IncrementalSyncManager(githubClient, localManager);
+        this.syncState = syncState;
+        this.descriptionManager = descriptionManager;
+        this.incrementalSyncManager = new IncrementalSyncManager(remoteStore, localManager, syncState);
     }
 
     /**
@@ -44,10 +96,10 @@ export class SyncManager {
             const originalHash = HashUtils.calculateHash(normalizedOriginal);
             
             // 上传内容
-            await this.githubClient.uploadFile(testFilename, content, 'Test encoding consistency');
+            await this.remoteStore.uploadFile(testFilename, content, 'Test encoding consistency');
             
             // 下载内容
-            const downloadedContent = await this.githubClient.downloadFile(testFilename);
+            const downloadedContent = await this.remoteStore.downloadFile(testFilename);
             
             // 计算下载内容的哈希
             const normalizedDownloaded = downloadedContent.replace(/\r\n/g, '\n').replace(/\r/g, '\n').trim();
@@ -55,7 +107,7 @@ export class SyncManager {
             
             // 清理测试文件
             try {
-                await this.githubClient.deleteFile(testFilename, 'Clean up test file');
+                await this.remoteStore.deleteFile(testFilename, 'Clean up test file');
             } catch (error) {
                 console.warn('Failed to clean up test file:', error);
             }
@@ -75,12 +127,21 @@ export class SyncManager {
      * 从云端同步到本地
      */
     async syncFromCloud(options: SyncOptions = {}): Promise<SyncResult> {
+        if (options.planOnly) {
+            return this.planResult('fromCloud', options);
+        }
+
         try {
+            if (options.detectRenames !== false) {
+                await this.propagateRenames(options);
+            }
+
             // 获取云端文件列表
-            const cloudFiles = await this.githubClient.listFiles();
+            const cloudFiles = await this.remoteStore.listFiles();
             const localSnippets = await this.localManager.getSnippetsList();
             
             const conflicts: string[] = [];
+            const duplicates = this.findDuplicateNames(cloudFiles);
             let syncedCount = 0;
 
             for (const cloudFile of cloudFiles) {
@@ -91,20 +152,45 @@ export class SyncManager {
                     continue;
                 }
 
-                // 检查是否存在冲突
-                const localFile = localSnippets.find(s => s.name === filename);
-                if (localFile && !options.forceOverwrite) {
-                    // 比较修改时间或询问用户
-                    conflicts.push(filename);
+                // 同名文件会写入同一个本地片段，交由用户处理
+                if (duplicates.has(filename)) {
+                    if (!conflicts.includes(filename)) {
+                        console.warn(this.describeDuplicate(duplicates.get(filename)!));
+                        conflicts.push(filename);
+                    }
                     continue;
                 }
 
+                // 基于基准快照判断是否需要下载
+                const localFile = localSnippets.find(s => s.name === filename);
+                if (!options.forceOverwrite) {
+                    const changeState = await this.classifyFile(filename, localFile, cloudFile);
+
+                    if (changeState === 'local-deleted') {
+                        // 本地已删除，等待删除传播，不重新下载
+                        continue;
+                    }
+                    if (changeState === 'both-changed') {
+                        // 两侧都有修改，交由用户处理
+                        conflicts.push(filename);
+                        continue;
+                    }
+                    if (localFile && changeState !== 'cloud-changed') {
+                        if (changeState === 'unchanged') {
+                            this.syncState.markSynced(filename, localFile.content);
+                        }
+                        // 内容相同或仅本地有修改，无需下载
+                        continue;
+                    }
+                }
+
                 try {
                     // 下载文件内容
-                    const content = await this.githubClient.downloadFile(cloudFile.path);
+                    const content = await this.remoteStore.downloadFile(cloudFile.path);
                     
                     // 写入本地
                     await this.localManager.writeSnippet(filename, content);
+                    this.syncState.markSynced(filename, content);
                     syncedCount++;
                     
                     console.log(`已下载: ${filename}`);
@@ -113,6 +199,9 @@ export class SyncManager {
                 }
             }
 
+            // 保存本次同步后的基准快照
+            await this.syncState.persist();
+
             if (conflicts.length > 0) {
                 return {
                     success: false,
@@ -138,43 +227,67 @@ export class SyncManager {
      * 双向同步：先从云端同步到本地，然后将本地更改同步到云端
      */
     async bidirectionalSync(options: SyncOptions = {}): Promise<SyncResult> {
+        if (options.planOnly) {
+            return this.planResult('bidirectional', options);
+        }
+
         try {
-            // 第一步：从云端同步到本地
+            // 第零步：传播重命名，再传播一侧的删除操作（需要确认）
+            const renames = options.detectRenames !== false ? await this.propagateRenames(options) : [];
+            const deletionResult = await this.propagateDeletions(options);
+            const stepOptions: SyncOptions = { ...options, detectRenames: false };
+
+            // 第一步：从云端同步到本地（仅下载云端单侧修改的文件）
             console.log('开始双向同步：第一步 - 从云端同步到本地');
-            const fromCloudResult = await this.syncFromCloud(options);
-            
-            if (!fromCloudResult.success && fromCloudResult.conflicts && fromCloudResult.conflicts.length > 0) {
-                // 如果有冲突且不是强制覆盖模式，返回冲突信息
-                if (!options.forceOverwrite) {
-                    return {
-                        success: false,
-                        message: '检测到同步冲突，请手动解决冲突或使用强制覆盖模式',
-                        conflicts: fromCloudResult.conflicts
-                    };
-                }
-            }
+            const fromCloudResult = await this.syncFromCloud(stepOptions);
 
-            // 第二步：将本地更改同步到云端
+            // 第二步：将本地更改同步到云端（仅上传本地单侧修改的文件）
             console.log('双向同步：第二步 - 将本地更改同步到云端');
-            const toCloudResult = await this.syncToCloud(options);
+            const toCloudResult = await this.syncToCloud(stepOptions);
             
-            if (!toCloudResult.success) {
+            if (!toCloudResult.success && !toCloudResult.conflicts) {
                 return {
                     success: false,
                     message: `双向同步部分完成：云端到本地成功，但本地到云端失败 - ${toCloudResult.message}`
                 };
             }
 
-            // 合并结果
-            const totalConflicts = [
+            // 合并结果，两个方向会报告同一批真正冲突的文件，需要去重
+            const totalConflicts = Array.from(new Set([
                 ...(fromCloudResult.conflicts || []),
                 ...(toCloudResult.conflicts || [])
-            ];
+            ]));
+
+            const details = {
+                renamed: renames,
+                deleted: deletionResult.applied,
+                pendingDeletions: deletionResult.pending
+            };
+
+            if (totalConflicts.length > 0) {
+                return {
+                    success: false,
+                    message: `双向同步完成，但有 ${totalConflicts.length} 个文件在本地和云端都有修改，请手动解决冲突`,
+                    conflicts: totalConflicts,
+                    details
+                };
+            }
+
+            let message = '双向同步完成';
+            if (renames.length > 0) {
+                message += `，已同步重命名 ${renames.length} 个文件`;
+            }
+            if (deletionResult.applied.length > 0) {
+                message += `，已同步删除 ${deletionResult.applied.length} 个文件`;
+            }
+            if (deletionResult.pending.length > 0) {
+                message += `，${deletionResult.pending.length} 个文件的删除等待确认`;
+            }
 
             return {
                 success: true,
-                message: '双向同步完成',
-                conflicts: totalConflicts.length > 0 ? totalConflicts : undefined
+                message,
+                details
             };
 
         } catch (error) {
@@ -186,13 +299,468 @@ export class SyncManager {
         }
     }
 
+    /**
+     * 生成同步计划，不修改本地或云端
+     */
+    async buildSyncPlan(direction: SyncDirection, options: SyncOptions = {}): Promise<SyncPlan> {
+        const [localSnippets, cloudFiles] = await Promise.all([
+            this.localManager.getSnippetsList(),
+            this.remoteStore.listFiles()
+        ]);
+        const actions: SyncAction[] = [];
+        const handled = new Set<string>();
+
+        if (options.detectRenames !== false) {
+            for (const rename of await this.findRenames(localSnippets, cloudFiles, options)) {
+                actions.push({
+                    type: 'rename',
+                    filename: rename.from,
+                    path: rename.path,
+                    reason: `${rename.target === 'cloud' ? '本地' : '云端'}已重命名为 ${rename.to}，内容相同`,
+                    rename
+                });
+                handled.add(rename.from);
+                handled.add(rename.to);
+            }
+        }
+
+        const includeLocal = direction !== 'fromCloud';
+        const includeCloud = direction !== 'toCloud';
+        const duplicates = this.findDuplicateNames(cloudFiles);
+        const names = new Set<string>();
+        if (includeLocal) {
+            localSnippets.filter(s => s.name.endsWith('.css')).forEach(s => names.add(s.name));
+        }
+        if (includeCloud) {
+            cloudFiles.forEach(f => names.add(f.name));
+        }
+
+        for (const filename of Array.from(names).sort()) {
+            if (handled.has(filename) || (options.selectedFiles && !options.selectedFiles.includes(filename))) {
+                continue;
+            }
+            const localFile = localSnippets.find(s => s.name === filename);
+            const cloudFile = cloudFiles.find(f => f.name === filename);
+            const path = cloudFile ? cloudFile.path : filename;
+            const action = (type: SyncActionType, reason: string) => actions.push({ type, filename, path, reason });
+
+            if (duplicates.has(filename)) {
+                action('conflict', this.describeDuplicate(duplicates.get(filename)!));
+                continue;
+            }
+
+            if (options.forceOverwrite) {
+                if (includeCloud && cloudFile) {
+                    action('download', '强制覆盖：使用云端版本');
+                } else if (includeLocal && localFile) {
+                    action(cloudFile ? 'update' : 'upload', '强制覆盖：使用本地版本');
+                }
+                continue;
+            }
+
+            const changeState = await this.classifyFile(filename, localFile, cloudFile);
+            switch (changeState) {
+                case 'unchanged':
+                    action('skip', '本地和云端内容相同');
+                    break;
+                case 'local-changed':
+                    if (includeLocal) {
+                        action('update', '只有本地有修改');
+                    } else {
+                        action('skip', '只有本地有修改，不需要下载');
+                    }
+                    break;
+                case 'cloud-changed':
+                    if (includeCloud) {
+                        action('download', '只有云端有修改');
+                    } else {
+                        action('skip', '只有云端有修改，不需要上传');
+                    }
+                    break;
+                case 'both-changed':
+                    action('conflict', this.syncState.getBase(filename)
+                        ? '本地和云端都有修改'
+                        : '没有上次同步的记录，无法判断哪一侧发生了修改');
+                    break;
+                case 'local-added':
+                    if (includeLocal) {
+                        action('upload', '本地新增的文件');
+                    } else {
+                        action('skip', '只存在于本地');
+                    }
+                    break;
+                case 'cloud-added':
+                    if (includeCloud) {
+                        action('download', '云端新增的文件');
+                    } else {
+                        action('skip', '只存在于云端');
+                    }
+                    break;
+                case 'local-deleted':
+                    if (direction === 'bidirectional') {
+                        action('delete-cloud', '本地已删除，云端内容未修改');
+                    } else {
+                        action('skip', '本地已删除，需在双向同步中确认删除');
+                    }
+                    break;
+                case 'cloud-deleted':
+                    if (direction === 'bidirectional') {
+                        action('delete-local', '云端已删除，本地内容未修改');
+                    } else {
+                        action('skip', '云端已删除，需在双向同步中确认删除');
+                    }
+                    break;
+            }
+        }
+
+        return { direction, actions, createdAt: Date.now() };
+    }
+
+    /**
+     * 执行同步计划中选中的操作
+     */
+    async executeSyncPlan(plan: SyncPlan, actions: SyncAction[] = plan.actions): Promise<SyncResult> {
+        const details = {
+            uploaded: [] as string[],
+            updated: [] as string[],
+            downloaded: [] as string[],
+            renamed: [] as DetectedRename[],
+            deleted: [] as string[],
+            failed: [] as string[]
+        };
+        const conflicts: string[] = [];
+
+        // 云端的新增、更新和删除合并为一个提交，要么全部成功，要么全部失败
+        const cloudActions = actions.filter(action =>
+            action.type === 'upload' || action.type === 'update' || action.type === 'delete-cloud'
+        );
+        if (cloudActions.length > 0) {
+            try {
+                const changes: FileChange[] = [];
+                const contents = new Map<SyncAction, string>();
+                for (const action of cloudActions) {
+                    if (action.type === 'delete-cloud') {
+                        changes.push({ path: action.path, action: 'delete' });
+                        continue;
+                    }
+                    const content = await this.localManager.readSnippet(action.filename);
+                    contents.set(action, content);
+                    changes.push({ path: action.path, action: action.type === 'upload' ? 'add' : 'update', content });
+                }
+
+                await this.remoteStore.commitChanges(changes);
+
+                for (const action of cloudActions) {
+                    if (action.type === 'delete-cloud') {
+                        this.syncState.markDeleted(action.filename, 'local');
+                        details.deleted.push(action.filename);
+                    } else {
+                        this.syncState.markSynced(action.filename, contents.get(action)!);
+                        (action.type === 'upload' ? details.uploaded : details.updated).push(action.filename);
+                    }
+                }
+            } catch (error) {
+                console.error('提交云端修改失败:', error);
+                details.failed.push(...cloudActions.map(action => action.filename));
+            }
+        }
+
+        for (const action of actions) {
+            try {
+                switch (action.type) {
+                    case 'download': {
+                        const content = await this.remoteStore.downloadFile(action.path);
+                        await this.localManager.writeSnippet(action.filename, content);
+                        this.syncState.markSynced(action.filename, content);
+                        details.downloaded.push(action.filename);
+                        break;
+                    }
+                    case 'rename':
+                        await this.applyRename(action.rename!);
+                        details.renamed.push(action.rename!);
+                        break;
+                    case 'delete-local':
+                        await this.localManager.deleteSnippet(action.filename);
+                        this.syncState.markDeleted(action.filename, 'cloud');
+                        details.deleted.push(action.filename);
+                        break;
+                    case 'conflict':
+                        conflicts.push(action.filename);
+                        break;
+                    default:
+                        // 跳过的文件不需要处理，云端操作已在上面统一提交
+                        break;
+                }
+            } catch (error) {
+                console.error(`执行同步操作 ${action.type} ${action.filename} 失败:`, error);
+                details.failed.push(action.filename);
+            }
+        }
+
+        await this.syncState.persist();
+
+        const parts: string[] = [];
+        if (details.uploaded.length > 0) parts.push(`新增 ${details.uploaded.length} 个`);
+        if (details.updated.length > 0) parts.push(`更新 ${details.updated.length} 个`);
+        if (details.downloaded.length > 0) parts.push(`下载 ${details.downloaded.length} 个`);
+        if (details.renamed.length > 0) parts.push(`重命名 ${details.renamed.length} 个`);
+        if (details.deleted.length > 0) parts.push(`删除 ${details.deleted.length} 个`);
+        let message = parts.length > 0 ? `同步计划已执行：${parts.join('，')}` : '同步计划已执行，没有需要处理的文件';
+        if (details.failed.length > 0) {
+            message += `，${details.failed.length} 个操作失败`;
+        }
+
+        return {
+            success: details.failed.length === 0 && conflicts.length === 0,
+            message,
+            conflicts: conflicts.length > 0 ? conflicts : undefined,
+            details
+        };
+    }
+
+    /**
+     * planOnly 模式下返回同步计划
+     */
+    private async planResult(direction: SyncDirection, options: SyncOptions): Promise<SyncResult> {
+        try {
+            const plan = await this.buildSyncPlan(direction, options);
+            const pending = plan.actions.filter(action => action.type !== 'skip').length;
+            return {
+                success: true,
+                message: `同步计划已生成：${pending} 项操作，${plan.actions.length - pending} 项跳过`,
+                plan
+            };
+        } catch (error) {
+            console.error('Error building sync plan:', error);
+            return {
+                success: false,
+                message: `生成同步计划失败: ${error instanceof Error ? error.message : '未知错误'}`
+            };
+        }
+    }
+
+    /**
+     * 检测并同步重命名
+     */
+    async propagateRenames(options: SyncOptions = {}): Promise<DetectedRename[]> {
+        const [localSnippets, cloudFiles] = await Promise.all([
+            this.localManager.getSnippetsList(),
+            this.remoteStore.listFiles()
+        ]);
+        const renames: DetectedRename[] = [];
+
+        for (const rename of await this.findRenames(localSnippets, cloudFiles, options)) {
+            try {
+                await this.applyRename(rename);
+                renames.push(rename);
+            } catch (error) {
+                console.error(`重命名 ${rename.from} 失败:`, error);
+            }
+        }
+
+        if (renames.length > 0) {
+            await this.syncState.persist();
+        }
+        return renames;
+    }
+
+    /**
+     * 检测重命名：一侧消失的文件与同侧新出现的文件内容哈希一致时，视为重命名
+     */
+    private async findRenames(localSnippets: LocalSnippet[], cloudFiles: RemoteFile[], options: SyncOptions): Promise<DetectedRename[]> {
+        const isSelected = (filename: string) => !options.selectedFiles || options.selectedFiles.includes(filename);
+        const renames: DetectedRename[] = [];
+
+        // 只在本地存在或只在云端存在的文件
+        const cloudOnly = cloudFiles.filter(file => !localSnippets.some(s => s.name === file.name));
+        const localOnly = localSnippets.filter(s => s.name.endsWith('.css') && !cloudFiles.some(f => f.name === s.name));
+        if (cloudOnly.length === 0 || localOnly.length === 0) {
+            return renames;
+        }
+
+        // 本地重命名：云端旧文件在本地消失，本地新文件内容与之相同
+        const localDeleted: { file: RemoteFile, hash: string }[] = [];
+        for (const file of cloudOnly) {
+            if (await this.classifyFile(file.name, undefined, file) === 'local-deleted') {
+                localDeleted.push({ file, hash: await this.incrementalSyncManager.getCloudFileHash(file, false) });
+            }
+        }
+        for (const snippet of localOnly) {
+            if (!isSelected(snippet.name) || this.syncState.classify(snippet.name, snippet.hash, null) !== 'local-added') {
+                continue;
+            }
+            const index = localDeleted.findIndex(candidate => HashUtils.compareHash(candidate.hash, snippet.hash));
+            if (index === -1) {
+                continue;
+            }
+            const [{ file }] = localDeleted.splice(index, 1);
+            renames.push({ from: file.name, to: snippet.name, target: 'cloud', path: file.path, content: snippet.content });
+        }
+
+        // 云端重命名：本地旧文件在云端消失，云端新文件内容与之相同
+        const cloudDeleted = localOnly.filter(snippet =>
+            !renames.some(rename => rename.to === snippet.name) &&
+            this.syncState.classify(snippet.name, snippet.hash, null) === 'cloud-deleted'
+        );
+        for (const file of cloudOnly) {
+            if (cloudDeleted.length === 0) {
+                break;
+            }
+            if (!isSelected(file.name) || renames.some(rename => rename.from === file.name)) {
+                continue;
+            }
+            if (await this.classifyFile(file.name, undefined, file) !== 'cloud-added') {
+                continue;
+            }
+            const cloudHash = await this.incrementalSyncManager.getCloudFileHash(file, false, cloudDeleted.map(snippet => snippet.content));
+            const index = cloudDeleted.findIndex(snippet => HashUtils.compareHash(snippet.hash, cloudHash));
+            if (index === -1) {
+                continue;
+            }
+            const [snippet] = cloudDeleted.splice(index, 1);
+            renames.push({ from: snippet.name, to: file.name, target: 'local', path: file.path, content: snippet.content });
+        }
+
+        return renames;
+    }
+
+    /**
+     * 在目标一侧执行重命名并更新同步状态（需调用 persist 写入磁盘）
+     */
+    private async applyRename(rename: DetectedRename): Promise<void> {
+        if (rename.target === 'cloud') {
+            const directory = rename.path.includes('/') ? rename.path.slice(0, rename.path.lastIndexOf('/') + 1) : '';
+            await this.remoteStore.renameFile(rename.path, `${directory}${rename.to}`, rename.content, `Rename ${rename.from} to ${rename.to}`);
+            await this.recordRename(rename.from, rename.to, rename.content, 'local');
+            console.log(`✏️ 已在云端重命名: ${rename.from} → ${rename.to}`);
+        } else {
+            await this.localManager.renameSnippet(rename.from, rename.to);
+            await this.recordRename(rename.from, rename.to, rename.content, 'cloud');
+            console.log(`✏️ 已在本地重命名: ${rename.from} → ${rename.to}`);
+        }
+    }
+
+    /**
+     * 记录重命名：旧名称写入墓碑以便其他设备识别，新名称作为新的基准，并迁移描述
+     */
+    private async recordRename(from: string, to: string, content: string, side: 'local' | 'cloud'): Promise<void> {
+        this.syncState.markDeleted(from, side);
+        this.syncState.markSynced(to, content);
+        await this.descriptionManager.moveDescription(from, to);
+    }
+
+    /**
+     * 找出已在一侧删除、需要在另一侧同步删除的文件
+     */
+    async collectPendingDeletions(options: SyncOptions = {}): Promise<PendingDeletion[]> {
+        const [localSnippets, cloudFiles] = await Promise.all([
+            this.localManager.getSnippetsList(),
+            this.remoteStore.listFiles()
+        ]);
+        const deletions: PendingDeletion[] = [];
+        const isSelected = (filename: string) => !options.selectedFiles || options.selectedFiles.includes(filename);
+
+        for (const cloudFile of cloudFiles) {
+            if (!isSelected(cloudFile.name) || localSnippets.some(s => s.name === cloudFile.name)) {
+                continue;
+            }
+            if (await this.classifyFile(cloudFile.name, undefined, cloudFile) === 'local-deleted') {
+                deletions.push({ filename: cloudFile.name, path: cloudFile.path, target: 'cloud' });
+            }
+        }
+
+        for (const snippet of localSnippets.filter(s => s.name.endsWith('.css'))) {
+            if (!isSelected(snippet.name) || cloudFiles.some(f => f.name === snippet.name)) {
+                continue;
+            }
+            if (await this.classifyFile(snippet.name, snippet, undefined) === 'cloud-deleted') {
+                deletions.push({ filename: snippet.name, path: snippet.path, target: 'local' });
+            }
+        }
+
+        return deletions;
+    }
+
+    /**
+     * 将一侧的删除传播到另一侧，执行前通过 confirmDeletions 回调确认
+     */
+    async propagateDeletions(options: SyncOptions = {}): Promise<{ applied: PendingDeletion[], pending: PendingDeletion[] }> {
+        const deletions = await this.collectPendingDeletions(options);
+        if (deletions.length === 0) {
+            return { applied: [], pending: [] };
+        }
+
+        const confirmed = options.confirmDeletions ? await options.confirmDeletions(deletions) : false;
+        if (!confirmed) {
+            console.log(`🗑️ ${deletions.length} 个文件的删除未确认，本次同步跳过`);
+            return { applied: [], pending: deletions };
+        }
+
+        const applied: PendingDeletion[] = [];
+        const pending: PendingDeletion[] = [];
+
+        // 云端的删除合并为一个提交
+        const cloudDeletions = deletions.filter(deletion => deletion.target === 'cloud');
+        if (cloudDeletions.length > 0) {
+            try {
+                await this.remoteStore.commitChanges(cloudDeletions.map(deletion => ({ path: deletion.path, action: 'delete' as const })));
+                for (const deletion of cloudDeletions) {
+                    this.syncState.markDeleted(deletion.filename, 'local');
+                    applied.push(deletion);
+                    console.log(`🗑️ 已同步删除云端文件: ${deletion.filename}`);
+                }
+            } catch (error) {
+                console.error('同步删除云端文件失败:', error);
+                pending.push(...cloudDeletions);
+            }
+        }
+
+        for (const deletion of deletions.filter(deletion => deletion.target === 'local')) {
+            try {
+                await this.localManager.deleteSnippet(deletion.filename);
+                this.syncState.markDeleted(deletion.filename, 'cloud');
+                applied.push(deletion);
+                console.log(`🗑️ 已同步删除本地文件: ${deletion.filename}`);
+            } catch (error) {
+                console.error(`同步删除 ${deletion.filename} 失败:`, error);
+                pending.push(deletion);
+            }
+        }
+
+        await this.syncState.persist();
+        return { applied, pending };
+    }
+
+    /**
+     * 计算单个文件的变化状态，只在需要时才获取云端哈希
+     */
+    private async classifyFile(filename: string, localFile?: LocalSnippet, cloudFile?: RemoteFile): Promise<SnippetChangeState> {
+        const hasHistory = this.syncState.getBase(filename) !== null || this.syncState.getTombstone(filename) !== null;
+        if (!localFile && cloudFile && !hasHistory) {
+            return 'cloud-added';
+        }
+
+        const cloudHash = cloudFile
+            ? await this.incrementalSyncManager.getCloudFileHash(cloudFile, false, localFile ? [localFile.content] : [])
+            : null;
+        return this.syncState.classify(filename, localFile ? localFile.hash : null, cloudHash);
+    }
+
     /**
      * 从本地同步到云端（增量同步，基于哈希值比较）
      * 新版本：使用专门的增量同步管理器
      */
     async syncToCloud(options: SyncOptions = {}): Promise<SyncResult> {
+        if (options.planOnly) {
+            return this.planResult('toCloud', options);
+        }
+
         try {
             console.log('🚀 启动基于哈希值的增量同步...');
+
+            if (options.detectRenames !== false) {
+                await this.propagateRenames(options);
+            }
             
             // 使用新的增量同步管理器
             const incrementalResult: IncrementalSyncResult = await this.incrementalSyncManager.syncToCloud({
@@ -244,7 +812,7 @@ export class SyncManager {
             const cssSnippets = localSnippets.filter(s => s.name.endsWith('.css'));
             
             // 获取云端文件列表
-            const cloudFiles = await this.githubClient.listFiles();
+            const cloudFiles = await this.remoteStore.listFiles();
             
             const conflicts: string[] = [];
             const needSync: LocalSnippet[] = [];
@@ -271,7 +839,7 @@ export class SyncManager {
                 } else {
                     // 进行增量检查：比较内容哈希
                     try {
-                        const cloudContent = await this.githubClient.downloadFile(cloudFile.path);
+                        const cloudContent = await this.remoteStore.downloadFile(cloudFile.path);
                         const cloudHash = HashUtils.calculateHash(cloudContent);
                         
                         if (localSnippet.hash !== cloudHash) {
@@ -293,7 +861,7 @@ export class SyncManager {
             let syncedCount = 0;
             for (const snippet of newFiles) {
                 try {
-                    const success = await this.githubClient.uploadFile(
+                    const success = await this.remoteStore.uploadFile(
                         snippet.name,
                         snippet.content,
                         `Add new file: ${snippet.name}`
@@ -312,7 +880,7 @@ export class SyncManager {
             // 更新已存在的文件
             for (const snippet of needSync) {
                 try {
-                    const success = await this.githubClient.uploadFile(
+                    const success = await this.remoteStore.uploadFile(
                         snippet.name,
                         snippet.content,
                         `Update ${snippet.name} (content changed)`
@@ -378,29 +946,14 @@ export class SyncManager {
     /**
      * 获取云端文件的内容哈希值（供UI显示使用，确保与增量同步一致）
      */
-    async getCloudFileContentHash(file: GitHubFile, useSecureHash: boolean = false): Promise<string> {
+    async getCloudFileContentHash(file: RemoteFile, useSecureHash: boolean = false, localContent?: string): Promise<string> {
         try {
-            // 使用增量同步管理器的哈希计算逻辑，确保完全一致
-            const cacheKey = `${file.path}:${file.sha}:${useSecureHash}`;
-            const cached = this.incrementalSyncManager['hashCache'].get(cacheKey);
-            
-            // 检查缓存是否有效
-            if (cached && (Date.now() - cached.timestamp) < this.incrementalSyncManager['CACHE_EXPIRY']) {
-                return cached.hash;
-            }
-
-            // 下载云端文件内容并计算哈希
-            const content = await this.githubClient.downloadFile(file.path);
-            // 标准化内容，确保与本地文件哈希计算一致
-            const normalizedContent = content.replace(/\r\n/g, '\n').replace(/\r/g, '\n').trim();
-            const hash = useSecureHash 
-                ? HashUtils.calculateSecureHash(normalizedContent)
-                : HashUtils.calculateHash(normalizedContent);
-            
-            // 更新缓存（使用增量同步管理器的缓存）
-            this.incrementalSyncManager['hashCache'].set(cacheKey, { hash, timestamp: Date.now() });
-            
-            return hash;
+            // 使用增量同步管理器的哈希计算逻辑（含 blob SHA 比较和缓存），确保完全一致
+            return await this.incrementalSyncManager.getCloudFileHash(
+                file,
+                useSecureHash,
+                localContent !== undefined ? [localContent] : []
+            );
         } catch (error) {
             console.error(`获取云端文件 ${file.path} 哈希失败:`, error);
             // 发生错误时返回Git SHA的前8位
@@ -409,24 +962,31 @@ export class SyncManager {
     }
 
     /**
-     * 检查同步冲突
+     * 检查同步冲突（只有本地和云端相对基准都发生修改的文件才算冲突）
      */
     async checkConflicts(): Promise<{ local: string[], cloud: string[] }> {
         try {
             const [localSnippets, cloudFiles] = await Promise.all([
                 this.localManager.getSnippetsList(),
-                this.githubClient.listFiles()
+                this.remoteStore.listFiles()
             ]);
 
-            const localFiles = localSnippets.map(s => s.name);
-            const cloudFileNames = cloudFiles.map(f => f.name);
+            const conflicted: string[] = [];
+            for (const cloudFile of cloudFiles) {
+                const localFile = localSnippets.find(s => s.name === cloudFile.name);
+                if (!localFile) {
+                    continue;
+                }
 
-            const conflicts = {
-                local: localFiles.filter(name => cloudFileNames.includes(name)),
-                cloud: cloudFileNames.filter(name => localFiles.includes(name))
-            };
+                if (await this.classifyFile(cloudFile.name, localFile, cloudFile) === 'both-changed') {
+                    conflicted.push(cloudFile.name);
+                }
+            }
 
-            return conflicts;
+            return {
+                local: conflicted,
+                cloud: [...conflicted]
+            };
         } catch (error) {
             console.error('Error checking conflicts:', error);
             return { local: [], cloud: [] };
@@ -445,7 +1005,7 @@ export class SyncManager {
         try {
             const [localSnippets, cloudFiles] = await Promise.all([
                 this.localManager.getSnippetsList(),
-                this.githubClient.listFiles()
+                this.remoteStore.listFiles()
             ]);
 
             const conflicts = await this.checkConflicts();
@@ -468,26 +1028,94 @@ export class SyncManager {
     }
 
     /**
-     * 解决冲突 - 选择保留哪个版本
+     * 获取冲突文件的基准、本地和云端三个版本
+     */
+    async getConflictVersions(filename: string): Promise<{ base: string, local: string, cloud: string }> {
+        const cloudPath = await this.findCloudPath(filename);
+        const [localContent, cloudContent] = await Promise.all([
+            this.localManager.readSnippet(filename),
+            this.remoteStore.downloadFile(cloudPath)
+        ]);
+        const base = this.syncState.getBase(filename);
+
+        return {
+            base: base ? base.content : '',
+            local: localContent,
+            cloud: cloudContent
+        };
+    }
+
+    /**
+     * 以上次同步的基准为参照，对本地和云端版本进行三方合并（不写入任何文件）
+     */
+    async previewMerge(filename: string): Promise<CSSMergeResult> {
+        const versions = await this.getConflictVersions(filename);
+        return CSSMergeEngine.merge(versions.base, versions.local, versions.cloud);
+    }
+
+    /**
+     * 将解决冲突后的内容同时写入本地和云端，并记录为新的基准
+     */
+    async saveResolvedContent(filename: string, content: string): Promise<boolean> {
+        if (CSSMergeEngine.hasConflictMarkers(content)) {
+            throw new Error('内容中仍有未解决的冲突标记');
+        }
+
+        const cloudPath = await this.findCloudPath(filename);
+        await this.localManager.writeSnippet(filename, content);
+        const success = await this.remoteStore.uploadFile(
+            cloudPath,
+            content,
+            `Resolve conflict: merge local and cloud changes of ${filename}`
+        );
+        if (success) {
+            this.syncState.markSynced(filename, content);
+            await this.syncState.persist();
+        }
+        return success;
+    }
+
+    /**
+     * 解决冲突 - 选择保留哪个版本，或自动合并两侧的修改
      */
-    async resolveConflict(filename: string, keepVersion: 'local' | 'cloud'): Promise<boolean> {
+    async resolveConflict(filename: string, keepVersion: 'local' | 'cloud' | 'merge'): Promise<boolean> {
         try {
+            if (keepVersion === 'merge') {
+                const mergeResult = await this.previewMerge(filename);
+                if (!mergeResult.clean) {
+                    console.warn(`无法自动合并 ${filename}：存在 ${mergeResult.conflicts.length} 处重叠修改`);
+                    return false;
+                }
+
+                return await this.saveResolvedContent(filename, mergeResult.content);
+            }
+
             if (keepVersion === 'local') {
                 // 保留本地版本，上传到云端
                 const localSnippets = await this.localManager.getSnippetsList();
                 const localSnippet = localSnippets.find(s => s.name === filename);
                 
                 if (localSnippet) {
-                    return await this.githubClient.uploadFile(
-                        filename,
+                    const success = await this.remoteStore.uploadFile(
+                        await this.findCloudPath(filename),
                         localSnippet.content,
                         `Resolve conflict: keep local version of ${filename}`
                     );
+                    if (success) {
+                        this.syncState.markSynced(filename, localSnippet.content);
+                        await this.syncState.persist();
+                    }
+                    return success;
                 }
             } else {
                 // 保留云端版本，下载到本地
-                const content = await this.githubClient.downloadFile(filename);
-                return await this.localManager.writeSnippet(filename, content);
+                const content = await this.remoteStore.downloadFile(await this.findCloudPath(filename));
+                const success = await this.localManager.writeSnippet(filename, content);
+                if (success) {
+                    this.syncState.markSynced(filename, content);
+                    await this.syncState.persist();
+                }
+                return success;
             }
             
             return false;
@@ -498,9 +1126,37 @@ export class SyncManager {
     }
 
     /**
-     * 更新 GitHub 客户端凭据
+     * 查找片段在云端的路径（可能位于子文件夹中），云端还没有该文件时使用根目录
+     * 不同文件夹中有同名文件时无法确定对应哪一个，抛出错误
+     */
+    private async findCloudPath(filename: string): Promise<string> {
+        const matches = (await this.remoteStore.listFiles()).filter(file => file.name === filename);
+        if (matches.length > 1) {
+            throw new Error(this.describeDuplicate(matches.map(file => file.path)));
+        }
+        return matches.length === 1 ? matches[0].path : filename;
+    }
+
+    /**
+     * 云端不同文件夹中的同名文件，按文件名分组
+     */
+    private findDuplicateNames(cloudFiles: RemoteFile[]): Map<string, string[]> {
+        const pathsByName = new Map<string, string[]>();
+        for (const file of cloudFiles) {
+            pathsByName.set(file.name, [...(pathsByName.get(file.name) || []), file.path]);
+        }
+        return new Map(Array.from(pathsByName).filter(([, paths]) => paths.length > 1));
+    }
+
+    private describeDuplicate(paths: string[]): string {
+        return `云端有多个同名文件（${paths.join('、')}），请先重命名或删除其中一个`;
+    }
+
+    /**
+     * 切换远程存储后端
      */
-    updateGitHubCredentials(token: string, repoUrl: string) {
-        this.githubClient.updateCredentials(token, repoUrl);
+    setRemoteStore(remoteStore: RemoteSnippetStore) {
+        this.remoteStore = remoteStore;
+        this.incrementalSyncManager.setRemoteStore(remoteStore);
     }
 }
@@ -0,0 +1,161 @@
+import { SyncAction, SyncActionType, SyncPlan } from './sync-manager';
+
+const ACTION_LABELS: Record<SyncActionType, string> = {
+    'upload': '⬆️ 上传',
+    'update': '🔄 更新云端',
+    'download': '⬇️ 下载',
+    'rename': '✏️ 重命名',
+    'delete-local': '🗑️ 删除本地',
+    'delete-cloud': '🗑️ 删除云端',
+    'skip': '⏭️ 跳过',
+    'conflict': '⚠️ 冲突'
+};
+
+const DIRECTION_LABELS: Record<SyncPlan['direction'], string> = {
+    'bidirectional': '双向同步',
+    'toCloud': '同步到云端',
+    'fromCloud': '从云端同步'
+};
+
+/**
+ * 同步计划预览窗口 - 列出同步将执行的操作，可以逐项取消后再执行
+ */
+export class SyncPlanModal {
+    private plan: SyncPlan;
+    private onExecute: (actions: SyncAction[]) => Promise<void>;
+    private selected: Set<SyncAction> = new Set();
+    private overlay: HTMLElement | null = null;
+    private executeBtn: HTMLButtonElement | null = null;
+    private escapeHandler: ((e: KeyboardEvent) => void) | null = null;
+
+    constructor(plan: SyncPlan, onExecute: (actions: SyncAction[]) => Promise<void>) {
+        this.plan = plan;
+        this.onExecute = onExecute;
+        // 默认勾选所有可执行的操作
+        plan.actions
+            .filter(action => this.isExecutable(action))
+            .forEach(action => this.selected.add(action));
+    }
+
+    /**
+     * 打开窗口
+     */
+    open(): void {
+        const overlay = document.body.createDiv({ cls: 'css-snippets-modal-overlay' });
+        this.overlay = overlay;
+
+        const modal = overlay.createDiv({ cls: 'css-snippets-modal css-snippets-plan-modal' });
+        modal.createEl('h3', { text: `同步计划：${DIRECTION_LABELS[this.plan.direction]}`, cls: 'css-snippets-modal-title' });
+
+        const executable = this.plan.actions.filter(action => this.isExecutable(action));
+        const conflicts = this.plan.actions.filter(action => action.type === 'conflict');
+        const skipped = this.plan.actions.filter(action => action.type === 'skip');
+
+        modal.createEl('p', {
+            text: executable.length > 0
+                ? `共 ${executable.length} 项操作，取消勾选的操作不会执行`
+                : '没有需要执行的操作',
+            cls: 'css-snippets-plan-summary'
+        });
+
+        const list = modal.createDiv({ cls: 'css-snippets-plan-list' });
+        executable.forEach(action => this.renderAction(list, action));
+        conflicts.forEach(action => this.renderAction(list, action));
+
+        // 跳过的文件默认折叠
+        if (skipped.length > 0) {
+            const details = modal.createEl('details', { cls: 'css-snippets-plan-skipped' });
+            details.createEl('summary', { text: `跳过的文件（${skipped.length}）` });
+            const skippedList = details.createDiv({ cls: 'css-snippets-plan-list' });
+            skipped.forEach(action => this.renderAction(skippedList, action));
+        }
+
+        const buttons = modal.createDiv({ cls: 'css-snippets-modal-buttons' });
+        const cancelBtn = buttons.createEl('button', {
+            text: '取消',
+            cls: 'css-snippets-modal-btn css-snippets-modal-btn-cancel'
+        });
+        cancelBtn.onclick = () => this.close();
+
+        this.executeBtn = buttons.createEl('button', {
+            cls: 'css-snippets-modal-btn css-snippets-modal-btn-primary'
+        });
+        this.executeBtn.onclick = async () => {
+            const actions = this.plan.actions.filter(action => this.selected.has(action) || action.type === 'conflict');
+            this.close();
+            await this.onExecute(actions);
+        };
+        this.updateExecuteButton();
+
+        // 点击遮罩层关闭
+        overlay.onclick = (e) => {
+            if (e.target === overlay) {
+                this.close();
+            }
+        };
+
+        // ESC键关闭
+        this.escapeHandler = (e: KeyboardEvent) => {
+            if (e.key === 'Escape') {
+                this.close();
+            }
+        };
+        document.addEventListener('keydown', this.escapeHandler);
+    }
+
+    /**
+     * 渲染单个操作，可执行的操作带复选框
+     */
+    private renderAction(container: HTMLElement, action: SyncAction): void {
+        const row = container.createDiv({ cls: `css-snippets-plan-item ${action.type}` });
+
+        if (this.isExecutable(action)) {
+            const checkbox = row.createEl('input', { type: 'checkbox' });
+            checkbox.checked = this.selected.has(action);
+            checkbox.onchange = () => {
+                if (checkbox.checked) {
+                    this.selected.add(action);
+                } else {
+                    this.selected.delete(action);
+                }
+                row.toggleClass('unchecked', !checkbox.checked);
+                this.updateExecuteButton();
+            };
+        }
+
+        row.createSpan({ text: ACTION_LABELS[action.type], cls: 'css-snippets-plan-type' });
+        const name = action.rename ? `${action.rename.from} → ${action.rename.to}` : action.filename;
+        row.createSpan({ text: name, cls: 'css-snippets-plan-name' });
+        row.createSpan({
+            text: action.type === 'conflict' ? `${action.reason}，执行后在对比窗口中处理` : action.reason,
+            cls: 'css-snippets-plan-reason'
+        });
+    }
+
+    private isExecutable(action: SyncAction): boolean {
+        return action.type !== 'skip' && action.type !== 'conflict';
+    }
+
+    private updateExecuteButton(): void {
+        if (this.executeBtn) {
+            this.executeBtn.textContent = `执行所选操作（${this.selected.size}）`;
+        }
+    }
+
+    /**
+     * 关闭窗口
+     */
+    private close(): void {
+        if (this.escapeHandler) {
+            document.removeEventListener('keydown', this.escapeHandler);
+            this.escapeHandler = null;
+        }
+
+        const overlay = this.overlay;
+        if (overlay) {
+            this.overlay = null;
+            overlay.classList.add('closing');
+            setTimeout(() => overlay.remove(), 150);
+        }
+    }
+}
@@ -0,0 +1,264 @@
+import { CSSSnippetsManagerSettings } from '../main';
+import { HashUtils } from './utils/hash-utils';
+
+/**
+ * 单个片段上次同步成功时的基准快照
+ */
+export interface SyncStateEntry {
+    hash: string;
+    content: string;
+    syncedAt: number;
+}
+
+/**
+ * 删除记录（墓碑），用于将一侧的删除传播到另一侧
+ */
+export interface SyncTombstone {
+    side: 'local' | 'cloud'; // 最初在哪一侧删除
+    hash: string;
+    secureHash: string;
+    deletedAt: number;
+}
+
+/**
+ * 三方比较的结果：本地、云端分别相对基准快照的变化
+ */
+export type SnippetChangeState =
+    | 'unchanged'
+    | 'local-changed'
+    | 'cloud-changed'
+    | 'both-changed'
+    | 'local-added'
+    | 'cloud-added'
+    | 'local-deleted'
+    | 'cloud-deleted';
+
+/**
+ * 同步状态管理器 - 持久化每个片段的基准快照，用于区分单侧修改和真正的冲突
+ * 基准快照和墓碑只对记录它们的远程存储有效：切换后端、仓库、分支或目录后旧状态会被清除，
+ * 否则新的（可能为空的）存储中缺少的文件都会被当作云端已删除
+ */
+export class SyncStateManager {
+    private settings: CSSSnippetsManagerSettings;
+    private saveCallback: () => Promise<void>;
+    private getScope: () => string;
+
+    constructor(settings: CSSSnippetsManagerSettings, saveCallback: () => Promise<void>, getScope: () => string = () => '') {
+        this.settings = settings;
+        this.saveCallback = saveCallback;
+        this.getScope = getScope;
+    }
+
+    /**
+     * 获取片段的基准快照
+     */
+    getBase(filename: string): SyncStateEntry | null {
+        return this.state[filename] || null;
+    }
+
+    /**
+     * 获取基准内容的哈希值（与比较时使用的哈希算法保持一致）
+     */
+    getBaseHash(filename: string, useSecureHash = false): string | null {
+        const base = this.getBase(filename);
+        if (!base) {
+            return null;
+        }
+        return useSecureHash ? HashUtils.calculateSecureHash(base.content) : base.hash;
+    }
+
+    /**
+     * 记录同步成功后的内容作为新的基准（需调用 persist 写入磁盘）
+     */
+    markSynced(filename: string, content: string): void {
+        this.state[filename] = {
+            hash: HashUtils.calculateHash(content),
+            content,
+            syncedAt: Date.now()
+        };
+        // 文件重新同步后，之前的删除记录不再有效
+        delete this.tombstones[filename];
+    }
+
+    /**
+     * 移除片段的基准快照（需调用 persist 写入磁盘）
+     */
+    removeEntry(filename: string): void {
+        delete this.state[filename];
+    }
+
+    /**
+     * 记录片段已在某一侧删除：移除基准快照并写入墓碑（需调用 persist 写入磁盘）
+     * 未提供内容时使用基准快照的内容，两者都没有时无法识别旧副本，不写入墓碑
+     */
+    markDeleted(filename: string, side: 'local' | 'cloud', content?: string): void {
+        const base = this.getBase(filename);
+        const deletedContent = content !== undefined ? content : base?.content;
+        this.removeEntry(filename);
+
+        if (deletedContent === undefined) {
+            return;
+        }
+
+        this.tombstones[filename] = {
+            side,
+            hash: HashUtils.calculateHash(deletedContent),
+            secureHash: HashUtils.calculateSecureHash(deletedContent),
+            deletedAt: Date.now()
+        };
+    }
+
+    /**
+     * 获取未过期的墓碑
+     */
+    getTombstone(filename: string): SyncTombstone | null {
+        const tombstone = this.tombstones[filename];
+        if (!tombstone || this.isExpired(tombstone)) {
+            return null;
+        }
+        return tombstone;
+    }
+
+    /**
+     * 移除墓碑（文件被重新创建时调用，需调用 persist 写入磁盘）
+     */
+    clearTombstone(filename: string): void {
+        delete this.tombstones[filename];
+    }
+
+    /**
+     * 清理过期的墓碑，返回清理的数量
+     */
+    async pruneExpiredTombstones(): Promise<number> {
+        const tombstones = this.tombstones;
+        const expired = Object.keys(tombstones)
+            .filter(filename => this.isExpired(tombstones[filename]));
+
+        for (const filename of expired) {
+            delete tombstones[filename];
+        }
+        if (expired.length > 0) {
+            await this.saveCallback();
+        }
+        return expired.length;
+    }
+
+    /**
+     * 获取所有未过期的墓碑
+     */
+    getActiveTombstones(): Record<string, SyncTombstone> {
+        const active: Record<string, SyncTombstone> = {};
+        for (const [filename, tombstone] of Object.entries(this.tombstones)) {
+            if (!this.isExpired(tombstone)) {
+                active[filename] = tombstone;
+            }
+        }
+        return active;
+    }
+
+    /**
+     * 当前远程存储的基准快照
+     */
+    private get state(): Record<string, SyncStateEntry> {
+        this.checkScope();
+        return this.settings.syncState;
+    }
+
+    /**
+     * 当前远程存储的墓碑
+     */
+    private get tombstones(): Record<string, SyncTombstone> {
+        this.checkScope();
+        return this.settings.syncTombstones;
+    }
+
+    /**
+     * 远程存储变化后清除属于之前存储的状态（在下次 persist 时写入磁盘）
+     * 旧版本没有记录所属的存储，直接归属于当前存储
+     */
+    private checkScope(): void {
+        const scope = this.getScope();
+        if (this.settings.syncStateScope === scope) {
+            return;
+        }
+        if (this.settings.syncStateScope) {
+            console.log('🧹 远程存储已变化，清除之前的同步状态');
+            this.settings.syncState = {};
+            this.settings.syncTombstones = {};
+        }
+        this.settings.syncStateScope = scope;
+    }
+
+    private isExpired(tombstone: SyncTombstone): boolean {
+        const expiryMs = this.settings.tombstoneExpiryDays * 24 * 60 * 60 * 1000;
+        return Date.now() - tombstone.deletedAt > expiryMs;
+    }
+
+    /**
+     * 保存同步状态
+     */
+    async persist(): Promise<void> {
+        await this.saveCallback();
+    }
+
+    /**
+     * 根据基准快照判断片段的变化状态
+     * 传入 null 表示该侧不存在此文件
+     */
+    classify(filename: string, localHash: string | null, cloudHash: string | null, useSecureHash = false): SnippetChangeState {
+        if (localHash === null && cloudHash === null) {
+            return 'unchanged';
+        }
+        if (localHash === null || cloudHash === null) {
+            // 剩下的一侧与上次同步（或删除时）的内容一致，说明是另一侧删除了文件；
+            // 若剩下的一侧已被修改，则保留修改，视为新增
+            const remainingHash = localHash === null ? cloudHash! : localHash;
+            const references = [this.getBaseHash(filename, useSecureHash), this.getTombstoneHash(filename, useSecureHash)];
+            const deleted = references.some(hash => hash !== null && HashUtils.compareHash(hash, remainingHash));
+
+            if (localHash === null) {
+                return deleted ? 'local-deleted' : 'cloud-added';
+            }
+            return deleted ? 'cloud-deleted' : 'local-added';
+        }
+
+        // 两侧内容一致时无需同步，无论是否存在基准
+        if (HashUtils.compareHash(localHash, cloudHash)) {
+            return 'unchanged';
+        }
+
+        const baseHash = this.getBaseHash(filename, useSecureHash);
+        if (baseHash === null) {
+            // 没有基准时无法判断哪一侧发生了修改，只能视为冲突
+            return 'both-changed';
+        }
+
+        const localChanged = !HashUtils.compareHash(localHash, baseHash);
+        const cloudChanged = !HashUtils.compareHash(cloudHash, baseHash);
+
+        if (localChanged && cloudChanged) {
+            return 'both-changed';
+        }
+        return localChanged ? 'local-changed' : 'cloud-changed';
+    }
+
+    /**
+     * 获取墓碑记录的哈希值
+     */
+    private getTombstoneHash(filename: string, useSecureHash: boolean): string | null {
+        const tombstone = this.getTombstone(filename);
+        if (!tombstone) {
+            return null;
+        }
+        return useSecureHash ? tombstone.secureHash : tombstone.hash;
+    }
+
+    /**
+     * 清除所有同步状态
+     */
+    async clearAll(): Promise<void> {
+        this.settings.syncState = {};
+        this.settings.syncTombstones = {};
+        await this.saveCallback();
+    }
+}
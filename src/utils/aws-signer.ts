@@ -0,0 +1,110 @@
+/**
+ * AWS Signature Version 4 签名 - 用于 S3 兼容存储（AWS S3、MinIO、Cloudflare R2 等）
+ * 使用 crypto.subtle 计算 HMAC-SHA256，桌面端和移动端都可用
+ */
+export interface AwsCredentials {
+    accessKeyId: string;
+    secretAccessKey: string;
+    region: string;
+    service: string;
+}
+
+const encoder = new TextEncoder();
+
+export class AwsSigner {
+    /**
+     * 为请求生成签名后的请求头（包括 Authorization、x-amz-date、x-amz-content-sha256）
+     * 签名覆盖 host 以及传入的所有请求头
+     */
+    static async sign(
+        credentials: AwsCredentials,
+        request: { method: string, url: string, headers: Record<string, string>, body?: string },
+        date: Date = new Date()
+    ): Promise<Record<string, string>> {
+        const url = new URL(request.url);
+        const amzDate = date.toISOString().replace(/[:-]|\.\d{3}/g, '');
+        const dateStamp = amzDate.slice(0, 8);
+        const payloadHash = await this.sha256Hex(request.body || '');
+
+        const headers: Record<string, string> = {
+            ...request.headers,
+            'x-amz-date': amzDate,
+            'x-amz-content-sha256': payloadHash
+        };
+
+        // 参与签名的请求头：名称小写、按字母排序，值去掉首尾空白
+        const canonicalHeaders: Record<string, string> = { host: url.host };
+        for (const [name, value] of Object.entries(headers)) {
+            canonicalHeaders[name.toLowerCase()] = value.trim().replace(/\s+/g, ' ');
+        }
+        const headerNames = Object.keys(canonicalHeaders).sort();
+        const signedHeaders = headerNames.join(';');
+
+        const canonicalRequest = [
+            request.method.toUpperCase(),
+            this.canonicalPath(url.pathname),
+            this.canonicalQuery(url.searchParams),
+            headerNames.map(name => `${name}:${canonicalHeaders[name]}\n`).join(''),
+            signedHeaders,
+            payloadHash
+        ].join('\n');
+
+        const scope = `${dateStamp}/${credentials.region}/${credentials.service}/aws4_request`;
+        const stringToSign = [
+            'AWS4-HMAC-SHA256',
+            amzDate,
+            scope,
+            await this.sha256Hex(canonicalRequest)
+        ].join('\n');
+
+        let signingKey = await this.hmac(encoder.encode(`AWS4${credentials.secretAccessKey}`), dateStamp);
+        for (const part of [credentials.region, credentials.service, 'aws4_request']) {
+            signingKey = await this.hmac(signingKey, part);
+        }
+        const signature = this.toHex(await this.hmac(signingKey, stringToSign));
+
+        headers['Authorization'] = `AWS4-HMAC-SHA256 Credential=${credentials.accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`;
+        return headers;
+    }
+
+    /**
+     * 按 RFC 3986 编码（只保留字母、数字和 -_.~）
+     */
+    static encodeRfc3986(value: string): string {
+        return encodeURIComponent(value).replace(/[!'()*]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+    }
+
+    /**
+     * 路径中的每一段分别编码，URL 中已编码的部分先解码，避免重复编码
+     */
+    private static canonicalPath(pathname: string): string {
+        return pathname
+            .split('/')
+            .map(segment => this.encodeRfc3986(decodeURIComponent(segment)))
+            .join('/') || '/';
+    }
+
+    /**
+     * 查询参数按名称排序，没有值的参数（如 ?versions）保留为 "versions="
+     */
+    private static canonicalQuery(params: URLSearchParams): string {
+        const pairs: [string, string][] = [];
+        params.forEach((value, key) => pairs.push([this.encodeRfc3986(key), this.encodeRfc3986(value)]));
+        pairs.sort(([keyA, valueA], [keyB, valueB]) => keyA === keyB ? (valueA < valueB ? -1 : 1) : (keyA < keyB ? -1 : 1));
+        return pairs.map(([key, value]) => `${key}=${value}`).join('&');
+    }
+
+    private static async sha256Hex(content: string): Promise<string> {
+        const digest = await crypto.subtle.digest('SHA-256', encoder.encode(content));
+        return this.toHex(new Uint8Array(digest));
+    }
+
+    private static async hmac(key: Uint8Array, data: string): Promise<Uint8Array> {
+        const cryptoKey = await crypto.subtle.importKey('raw', key, { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+        return new Uint8Array(await crypto.subtle.sign('HMAC', cryptoKey, encoder.encode(data)));
+    }
+
+    private static toHex(bytes: Uint8Array): string {
+        return Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+    }
+}
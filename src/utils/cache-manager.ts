@@ -13,9 +13,20 @@ export interface CacheOptions {
     maxItems?: number;
 }
 
+/**
+ * 缓存的持久化存储（例如插件数据目录中的文件）
+ */
+export interface CacheStorage {
+    read(): Promise<string | null>;
+    write(data: string): Promise<void>;
+}
+
 export class CacheManager {
     private static instance: CacheManager;
     private caches: Map<string, Map<string, CacheItem<any>>> = new Map();
+    private storages: Map<string, CacheStorage> = new Map();
+    private persistTimers: Map<string, ReturnType<typeof setTimeout>> = new Map();
+    private readonly PERSIST_DELAY_MS = 1000;
     private defaultOptions: CacheOptions = {
         expiryMs: 5 * 60 * 1000, // 5分钟
         maxSize: 50 * 1024 * 1024, // 50MB
@@ -61,6 +72,7 @@ export class CacheManager {
             timestamp: Date.now(),
             size: this.calculateSize(data)
         });
+        this.schedulePersist(cacheId);
     }
 
     /**
@@ -97,7 +109,11 @@ export class CacheManager {
      */
     delete(cacheId: string, key: string): boolean {
         const cache = this.getCache(cacheId);
-        return cache.delete(key);
+        const deleted = cache.delete(key);
+        if (deleted) {
+            this.schedulePersist(cacheId);
+        }
+        return deleted;
     }
 
     /**
@@ -106,6 +122,7 @@ export class CacheManager {
     clear(cacheId: string): void {
         const cache = this.getCache(cacheId);
         cache.clear();
+        this.schedulePersist(cacheId);
     }
 
     /**
@@ -113,6 +130,66 @@ export class CacheManager {
      */
     clearAll(): void {
         this.caches.clear();
+        for (const cacheId of this.storages.keys()) {
+            this.schedulePersist(cacheId);
+        }
+    }
+
+    /**
+     * 为缓存启用持久化：从存储中加载已有内容，之后的修改会延迟写回
+     */
+    async enablePersistence(cacheId: string, storage: CacheStorage): Promise<void> {
+        this.storages.set(cacheId, storage);
+
+        try {
+            const raw = await storage.read();
+            if (!raw) {
+                return;
+            }
+            const items = JSON.parse(raw) as Record<string, CacheItem<any>>;
+            const cache = this.getCache(cacheId);
+            for (const [key, item] of Object.entries(items)) {
+                cache.set(key, item);
+            }
+        } catch (error) {
+            console.warn(`加载持久化缓存 ${cacheId} 失败:`, error);
+        }
+    }
+
+    /**
+     * 立即将缓存写入持久化存储
+     */
+    async persist(cacheId: string): Promise<void> {
+        const storage = this.storages.get(cacheId);
+        if (!storage) {
+            return;
+        }
+
+        const timer = this.persistTimers.get(cacheId);
+        if (timer) {
+            clearTimeout(timer);
+            this.persistTimers.delete(cacheId);
+        }
+
+        try {
+            const items = Object.fromEntries(this.getCache(cacheId).entries());
+            await storage.write(JSON.stringify(items));
+        } catch (error) {
+            console.warn(`保存持久化缓存 ${cacheId} 失败:`, error);
+        }
+    }
+
+    /**
+     * 延迟写入，合并短时间内的多次修改
+     */
+    private schedulePersist(cacheId: string): void {
+        if (!this.storages.has(cacheId) || this.persistTimers.has(cacheId)) {
+            return;
+        }
+        this.persistTimers.set(cacheId, setTimeout(() => {
+            this.persistTimers.delete(cacheId);
+            this.persist(cacheId);
+        }, this.PERSIST_DELAY_MS));
     }
 
     /**
@@ -125,6 +202,7 @@ export class CacheManager {
         for (const [key, item] of cache.entries()) {
             if (now - item.timestamp > expiryMs) {
                 cache.delete(key);
+                this.schedulePersist(cacheId);
             }
         }
     }
@@ -0,0 +1,147 @@
+/**
+ * 加密工具 - 使用 WebCrypto 的 AES-GCM 加密，密钥由用户口令通过 PBKDF2 派生，或随机生成后保存在库中
+ * 加密结果带有格式版本前缀，旧版本的混淆数据（没有前缀）视为版本 1
+ */
+
+/**
+ * 由口令派生密钥所需的参数，随设置一起保存（不含口令本身）
+ */
+export interface PassphraseKeyParams {
+    version: number; // 加密格式版本
+    salt: string; // Base64 编码的随机盐
+    iterations: number; // PBKDF2 迭代次数
+    check: string; // 用派生密钥加密的校验值，用于判断口令是否正确
+}
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+export class CryptoUtils {
+    static readonly FORMAT_VERSION = 2;
+    private static readonly PREFIX = `v${CryptoUtils.FORMAT_VERSION}:`;
+    private static readonly PBKDF2_ITERATIONS = 310000;
+    private static readonly CHECK_VALUE = 'css-snippets-manager';
+
+    /**
+     * 为新口令生成随机盐和校验值，返回需要保存的参数和派生出的密钥
+     */
+    static async createKeyParams(passphrase: string): Promise<{ params: PassphraseKeyParams, key: CryptoKey }> {
+        const salt = crypto.getRandomValues(new Uint8Array(16));
+        const key = await this.deriveKey(passphrase, salt, this.PBKDF2_ITERATIONS);
+        return {
+            params: {
+                version: this.FORMAT_VERSION,
+                salt: this.toBase64(salt),
+                iterations: this.PBKDF2_ITERATIONS,
+                check: await this.encrypt(key, this.CHECK_VALUE)
+            },
+            key
+        };
+    }
+
+    /**
+     * 用口令派生密钥并验证，口令错误时返回 null
+     */
+    static async unlock(passphrase: string, params: PassphraseKeyParams): Promise<CryptoKey | null> {
+        if (params.version !== this.FORMAT_VERSION) {
+            throw new Error(`不支持的加密格式版本: ${params.version}`);
+        }
+
+        const key = await this.deriveKey(passphrase, this.fromBase64(params.salt), params.iterations);
+        try {
+            return (await this.decrypt(key, params.check)) === this.CHECK_VALUE ? key : null;
+        } catch {
+            // AES-GCM 校验失败说明口令不正确
+            return null;
+        }
+    }
+
+    /**
+     * 加密文本，结果格式为 v2:<IV>:<密文>（Base64）
+     */
+    static async encrypt(key: CryptoKey, plaintext: string): Promise<string> {
+        const iv = crypto.getRandomValues(new Uint8Array(12));
+        const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, encoder.encode(plaintext));
+        return `${this.PREFIX}${this.toBase64(iv)}:${this.toBase64(new Uint8Array(ciphertext))}`;
+    }
+
+    /**
+     * 解密 encrypt 生成的文本，密钥错误或数据被篡改时抛出错误
+     */
+    static async decrypt(key: CryptoKey, value: string): Promise<string> {
+        if (!this.isEncrypted(value)) {
+            throw new Error('不是当前格式的加密数据');
+        }
+
+        const [iv, ciphertext] = value.slice(this.PREFIX.length).split(':');
+        const plaintext = await crypto.subtle.decrypt(
+            { name: 'AES-GCM', iv: this.fromBase64(iv) },
+            key,
+            this.fromBase64(ciphertext)
+        );
+        return decoder.decode(plaintext);
+    }
+
+    /**
+     * 生成随机的 AES-256 密钥，返回 Base64 编码，用于加密云端片段
+     */
+    static generateKey(): string {
+        return this.toBase64(crypto.getRandomValues(new Uint8Array(32)));
+    }
+
+    /**
+     * 导入 generateKey 生成的密钥
+     */
+    static async importKey(value: string): Promise<CryptoKey> {
+        if (!this.isValidKey(value)) {
+            throw new Error('密钥格式不正确');
+        }
+        return crypto.subtle.importKey('raw', this.fromBase64(value.trim()), 'AES-GCM', false, ['encrypt', 'decrypt']);
+    }
+
+    /**
+     * 是否为 Base64 编码的 256 位密钥
+     */
+    static isValidKey(value: string): boolean {
+        try {
+            return this.fromBase64(value.trim()).length === 32;
+        } catch {
+            return false;
+        }
+    }
+
+    /**
+     * 是否为当前格式的加密数据（旧版混淆数据返回 false）
+     */
+    static isEncrypted(value: string | undefined): boolean {
+        return !!value && value.startsWith(this.PREFIX);
+    }
+
+    private static async deriveKey(passphrase: string, salt: Uint8Array, iterations: number): Promise<CryptoKey> {
+        const baseKey = await crypto.subtle.importKey('raw', encoder.encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+        return crypto.subtle.deriveKey(
+            { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+            baseKey,
+            { name: 'AES-GCM', length: 256 },
+            false,
+            ['encrypt', 'decrypt']
+        );
+    }
+
+    private static toBase64(bytes: Uint8Array): string {
+        let binary = '';
+        for (const byte of bytes) {
+            binary += String.fromCharCode(byte);
+        }
+        return btoa(binary);
+    }
+
+    private static fromBase64(value: string): Uint8Array {
+        const binary = atob(value);
+        const bytes = new Uint8Array(binary.length);
+        for (let i = 0; i < binary.length; i++) {
+            bytes[i] = binary.charCodeAt(i);
+        }
+        return bytes;
+    }
+}
@@ -0,0 +1,515 @@
+/**
+ * CSS 三方合并引擎 - 先按 CSS 规则合并，再对同一规则内的修改按行合并
+ */
+
+export interface MergeConflict {
+    index: number;
+    selector?: string;
+    base: string[];
+    local: string[];
+    cloud: string[];
+}
+
+export interface CSSMergeResult {
+    clean: boolean;
+    content: string; // 合并结果，存在冲突时包含冲突标记
+    conflicts: MergeConflict[];
+}
+
+export interface DiffSegment {
+    kind: 'equal' | 'changed';
+    local: string[];
+    cloud: string[];
+}
+
+interface CSSBlock {
+    key: string;
+    text: string;
+    selector?: string;
+}
+
+type Diff3Chunk<T> =
+    | { kind: 'stable'; local: T; base: T; cloud: T }
+    | { kind: 'changed'; local: T[]; base: T[]; cloud: T[] };
+
+export class CSSMergeEngine {
+    static readonly LOCAL_MARKER = '<<<<<<< local';
+    static readonly SEPARATOR_MARKER = '=======';
+    static readonly CLOUD_MARKER = '>>>>>>> cloud';
+
+    /**
+     * 对 CSS 内容进行三方合并
+     * 互不重叠的修改会自动合并，重叠的修改生成冲突标记和结构化的冲突列表
+     */
+    static merge(base: string, local: string, cloud: string): CSSMergeResult {
+        const baseBlocks = this.parseBlocks(this.normalize(base));
+        const localBlocks = this.parseBlocks(this.normalize(local));
+        const cloudBlocks = this.parseBlocks(this.normalize(cloud));
+
+        const output: string[] = [];
+        const conflicts: MergeConflict[] = [];
+
+        const chunks = this.diff3(localBlocks, baseBlocks, cloudBlocks, (x, y) => x.key === y.key);
+
+        for (const chunk of chunks) {
+            if (chunk.kind === 'stable') {
+                // 同一条规则在三个版本中都存在，只需合并规则内容
+                const merged = this.resolveTexts(
+                    [chunk.base.text],
+                    [chunk.local.text],
+                    [chunk.cloud.text],
+                    chunk.base.selector,
+                    conflicts
+                );
+                output.push(...merged);
+            } else {
+                // 规则被新增、删除或调整了顺序
+                output.push(...this.mergeBlocks(chunk.base, chunk.local, chunk.cloud, conflicts));
+            }
+        }
+
+        return {
+            clean: conflicts.length === 0,
+            content: output.join('\n'),
+            conflicts
+        };
+    }
+
+    /**
+     * 逐行比较本地和云端版本，返回相同段落和差异段落（用于并排对比显示）
+     */
+    static diffLines(local: string, cloud: string): DiffSegment[] {
+        const localLines = this.normalize(local).split('\n');
+        const cloudLines = this.normalize(cloud).split('\n');
+        const matches = this.matchIndices(localLines, cloudLines, (x, y) => x === y);
+        const segments: DiffSegment[] = [];
+
+        const pushLines = (kind: 'equal' | 'changed', localPart: string[], cloudPart: string[]) => {
+            if (localPart.length === 0 && cloudPart.length === 0) {
+                return;
+            }
+            const last = segments[segments.length - 1];
+            if (last && last.kind === kind) {
+                last.local.push(...localPart);
+                last.cloud.push(...cloudPart);
+            } else {
+                segments.push({ kind, local: [...localPart], cloud: [...cloudPart] });
+            }
+        };
+
+        let localIndex = 0;
+        let cloudIndex = 0;
+        for (let i = 0; i <= localLines.length; i++) {
+            if (i < localLines.length && matches[i] === -1) {
+                continue;
+            }
+            const cloudEnd = i < localLines.length ? matches[i] : cloudLines.length;
+            pushLines('changed', localLines.slice(localIndex, i), cloudLines.slice(cloudIndex, cloudEnd));
+            if (i < localLines.length) {
+                pushLines('equal', [localLines[i]], [cloudLines[cloudEnd]]);
+            }
+            localIndex = i + 1;
+            cloudIndex = cloudEnd + 1;
+        }
+
+        return segments;
+    }
+
+    /**
+     * 检查内容中是否残留冲突标记
+     */
+    static hasConflictMarkers(content: string): boolean {
+        return content.split('\n').some(line =>
+            line.startsWith(this.LOCAL_MARKER) || line.startsWith(this.CLOUD_MARKER)
+        );
+    }
+
+    /**
+     * 合并规则被新增、删除或移动的区域：按选择器对应三个版本中的规则
+     * 两侧新增的不同规则全部保留，同一规则按内容合并，一侧删除而另一侧修改时作为冲突
+     */
+    private static mergeBlocks(base: CSSBlock[], local: CSSBlock[], cloud: CSSBlock[], conflicts: MergeConflict[]): string[] {
+        const baseText = base.map(block => block.text).join('\n');
+        if (local.map(block => block.text).join('\n') === baseText) {
+            return cloud.map(block => block.text);
+        }
+        if (cloud.map(block => block.text).join('\n') === baseText) {
+            return local.map(block => block.text);
+        }
+
+        const baseBlocks = this.indexBlocks(base);
+        const localBlocks = this.indexBlocks(local);
+        const cloudBlocks = this.indexBlocks(cloud);
+        const merged: { key: string, lines: string[] }[] = [];
+
+        // 先按本地的顺序处理本地存在的规则
+        localBlocks.forEach((block, key) => {
+            const baseBlock = baseBlocks.get(key);
+            const cloudBlock = cloudBlocks.get(key);
+            const baseLines = baseBlock ? [baseBlock.text] : [];
+            if (cloudBlock) {
+                merged.push({ key, lines: this.resolveTexts(baseLines, [block.text], [cloudBlock.text], block.selector, conflicts) });
+            } else if (!baseBlock) {
+                merged.push({ key, lines: [block.text] });
+            } else if (block.text !== baseBlock.text) {
+                // 云端删除了本地修改过的规则
+                const lines: string[] = [];
+                this.pushConflict(baseLines, [block.text], [], block.selector, conflicts, lines);
+                merged.push({ key, lines });
+            }
+        });
+
+        // 再把只存在于云端的规则插入到云端中它前面的规则之后
+        let anchor = -1;
+        cloudBlocks.forEach((block, key) => {
+            const existing = merged.findIndex(item => item.key === key);
+            if (existing !== -1) {
+                anchor = existing;
+                return;
+            }
+
+            const baseBlock = baseBlocks.get(key);
+            let lines: string[];
+            if (!baseBlock) {
+                lines = [block.text];
+            } else if (block.text !== baseBlock.text) {
+                // 本地删除了云端修改过的规则
+                lines = [];
+                this.pushConflict([baseBlock.text], [], [block.text], block.selector, conflicts, lines);
+            } else {
+                return;
+            }
+
+            // 跳过紧跟在前一条规则后面的本地新增规则，本地新增的内容排在前面
+            let position = anchor + 1;
+            while (position < merged.length && !cloudBlocks.has(merged[position].key)) {
+                position++;
+            }
+            merged.splice(position, 0, { key, lines });
+            anchor = position;
+        });
+
+        const output: string[] = [];
+        merged.forEach(item => output.push(...item.lines));
+        return output;
+    }
+
+    /**
+     * 按键索引规则，同一键出现多次时（如重复的注释）按出现顺序区分
+     */
+    private static indexBlocks(blocks: CSSBlock[]): Map<string, CSSBlock> {
+        const indexed = new Map<string, CSSBlock>();
+        const counts = new Map<string, number>();
+        for (const block of blocks) {
+            const count = counts.get(block.key) || 0;
+            counts.set(block.key, count + 1);
+            indexed.set(count === 0 ? block.key : `${block.key}#${count}`, block);
+        }
+        return indexed;
+    }
+
+    /**
+     * 合并一段区域的文本：单侧修改直接采用，双侧修改时退化为按行合并
+     */
+    private static resolveTexts(
+        base: string[],
+        local: string[],
+        cloud: string[],
+        selector: string | undefined,
+        conflicts: MergeConflict[]
+    ): string[] {
+        const baseText = base.join('\n');
+        const localText = local.join('\n');
+        const cloudText = cloud.join('\n');
+
+        if (localText === baseText) {
+            return cloud;
+        }
+        if (cloudText === baseText || localText === cloudText) {
+            return local;
+        }
+
+        return this.mergeLines(
+            base.length > 0 ? baseText.split('\n') : [],
+            local.length > 0 ? localText.split('\n') : [],
+            cloud.length > 0 ? cloudText.split('\n') : [],
+            selector,
+            conflicts
+        );
+    }
+
+    /**
+     * 按行进行三方合并
+     */
+    private static mergeLines(
+        base: string[],
+        local: string[],
+        cloud: string[],
+        selector: string | undefined,
+        conflicts: MergeConflict[]
+    ): string[] {
+        const output: string[] = [];
+        const chunks = this.diff3(local, base, cloud, (x, y) => x === y);
+
+        for (const chunk of chunks) {
+            if (chunk.kind === 'stable') {
+                output.push(chunk.local);
+                continue;
+            }
+
+            const baseText = chunk.base.join('\n');
+            const localText = chunk.local.join('\n');
+            const cloudText = chunk.cloud.join('\n');
+
+            if (localText === baseText) {
+                output.push(...chunk.cloud);
+            } else if (cloudText === baseText || localText === cloudText) {
+                output.push(...chunk.local);
+            } else if (chunk.base.length === chunk.local.length && chunk.base.length === chunk.cloud.length) {
+                // 行数一致时逐行合并，例如同一规则中两侧分别修改了不同的属性
+                this.mergeAlignedLines(chunk.base, chunk.local, chunk.cloud, selector, conflicts, output);
+            } else {
+                this.pushConflict(chunk.base, chunk.local, chunk.cloud, selector, conflicts, output);
+            }
+        }
+
+        return output;
+    }
+
+    /**
+     * 逐行合并行数相同的区域，连续的冲突行合并为一个冲突
+     */
+    private static mergeAlignedLines(
+        base: string[],
+        local: string[],
+        cloud: string[],
+        selector: string | undefined,
+        conflicts: MergeConflict[],
+        output: string[]
+    ): void {
+        let start = -1;
+
+        for (let i = 0; i <= base.length; i++) {
+            const conflicted = i < base.length
+                && local[i] !== base[i]
+                && cloud[i] !== base[i]
+                && local[i] !== cloud[i];
+
+            if (conflicted) {
+                if (start === -1) {
+                    start = i;
+                }
+                continue;
+            }
+
+            if (start !== -1) {
+                this.pushConflict(base.slice(start, i), local.slice(start, i), cloud.slice(start, i), selector, conflicts, output);
+                start = -1;
+            }
+
+            if (i < base.length) {
+                output.push(local[i] === base[i] ? cloud[i] : local[i]);
+            }
+        }
+    }
+
+    /**
+     * 记录冲突并输出冲突标记
+     */
+    private static pushConflict(
+        base: string[],
+        local: string[],
+        cloud: string[],
+        selector: string | undefined,
+        conflicts: MergeConflict[],
+        output: string[]
+    ): void {
+        conflicts.push({
+            index: conflicts.length,
+            selector,
+            base,
+            local,
+            cloud
+        });
+        output.push(
+            this.LOCAL_MARKER,
+            ...local,
+            this.SEPARATOR_MARKER,
+            ...cloud,
+            this.CLOUD_MARKER
+        );
+    }
+
+    /**
+     * 将 CSS 拆分为顶层块（规则、@规则、注释和其他语句），每个块占若干整行
+     */
+    private static parseBlocks(content: string): CSSBlock[] {
+        const blocks: CSSBlock[] = [];
+        const lines = content.split('\n');
+
+        let current: string[] = [];
+        let depth = 0;
+        let inComment = false;
+        let inString: string | null = null;
+        let openedBrace = false;
+
+        const flush = () => {
+            const text = current.join('\n');
+            const selector = openedBrace
+                ? text.replace(/\/\*[\s\S]*?\*\//g, '').split('{')[0].replace(/\s+/g, ' ').trim()
+                : undefined;
+            blocks.push({
+                key: selector !== undefined ? `rule:${selector}` : `text:${text.trim()}`,
+                text,
+                selector
+            });
+            current = [];
+            openedBrace = false;
+        };
+
+        for (const line of lines) {
+            current.push(line);
+
+            for (let i = 0; i < line.length; i++) {
+                const char = line[i];
+                const next = line[i + 1];
+
+                if (inComment) {
+                    if (char === '*' && next === '/') {
+                        inComment = false;
+                        i++;
+                    }
+                    continue;
+                }
+                if (inString) {
+                    if (char === '\\') {
+                        i++;
+                    } else if (char === inString) {
+                        inString = null;
+                    }
+                    continue;
+                }
+
+                if (char === '/' && next === '*') {
+                    inComment = true;
+                    i++;
+                } else if (char === '"' || char === '\'') {
+                    inString = char;
+                } else if (char === '{') {
+                    if (depth === 0) {
+                        openedBrace = true;
+                    }
+                    depth++;
+                } else if (char === '}') {
+                    depth = Math.max(0, depth - 1);
+                }
+            }
+
+            // 规则闭合，或顶层的单行语句/注释结束时，结束当前块
+            // 空行归入下一个块，使新增规则连同前面的空行作为一个整体合并
+            if (depth === 0 && !inComment && line.trim() !== '') {
+                flush();
+            }
+        }
+
+        if (current.length > 0) {
+            flush();
+        }
+
+        return blocks;
+    }
+
+    /**
+     * 通用三方比较：以基准为参照，找出三个序列的公共部分和变化区域
+     */
+    private static diff3<T>(local: T[], base: T[], cloud: T[], equals: (x: T, y: T) => boolean): Diff3Chunk<T>[] {
+        const localMatch = this.matchIndices(base, local, equals);
+        const cloudMatch = this.matchIndices(base, cloud, equals);
+        const chunks: Diff3Chunk<T>[] = [];
+
+        let baseIndex = 0;
+        let localIndex = 0;
+        let cloudIndex = 0;
+
+        while (baseIndex <= base.length) {
+            // 找到下一个在三个版本中都保留的基准元素
+            let next = baseIndex;
+            while (next < base.length && (localMatch[next] === -1 || cloudMatch[next] === -1)) {
+                next++;
+            }
+
+            const localEnd = next < base.length ? localMatch[next] : local.length;
+            const cloudEnd = next < base.length ? cloudMatch[next] : cloud.length;
+
+            if (next > baseIndex || localEnd > localIndex || cloudEnd > cloudIndex) {
+                chunks.push({
+                    kind: 'changed',
+                    local: local.slice(localIndex, localEnd),
+                    base: base.slice(baseIndex, next),
+                    cloud: cloud.slice(cloudIndex, cloudEnd)
+                });
+            }
+
+            if (next >= base.length) {
+                break;
+            }
+
+            chunks.push({
+                kind: 'stable',
+                local: local[localEnd],
+                base: base[next],
+                cloud: cloud[cloudEnd]
+            });
+
+            baseIndex = next + 1;
+            localIndex = localEnd + 1;
+            cloudIndex = cloudEnd + 1;
+        }
+
+        return chunks;
+    }
+
+    /**
+     * 基于最长公共子序列，返回 a 中每个元素在 b 中对应的位置（未匹配为 -1）
+     */
+    private static matchIndices<T>(a: T[], b: T[], equals: (x: T, y: T) => boolean): number[] {
+        const rows = a.length + 1;
+        const cols = b.length + 1;
+        const table: Int32Array[] = [];
+        for (let i = 0; i < rows; i++) {
+            table.push(new Int32Array(cols));
+        }
+
+        for (let i = a.length - 1; i >= 0; i--) {
+            for (let j = b.length - 1; j >= 0; j--) {
+                table[i][j] = equals(a[i], b[j])
+                    ? table[i + 1][j + 1] + 1
+                    : Math.max(table[i + 1][j], table[i][j + 1]);
+            }
+        }
+
+        const matches: number[] = new Array(a.length).fill(-1);
+        let i = 0;
+        let j = 0;
+        while (i < a.length && j < b.length) {
+            if (equals(a[i], b[j])) {
+                matches[i] = j;
+                i++;
+                j++;
+            } else if (table[i + 1][j] >= table[i][j + 1]) {
+                i++;
+            } else {
+                j++;
+            }
+        }
+
+        return matches;
+    }
+
+    /**
+     * 统一换行符
+     */
+    private static normalize(content: string): string {
+        return content.replace(/\r\n/g, '\n').replace(/\r/g, '\n');
+    }
+}
@@ -64,6 +64,83 @@ export class HashUtils {
         return `${hash1.toString(16).padStart(8, '0')}-${hash2.toString(16).padStart(8, '0')}-${hash3.toString(16).padStart(8, '0')}`;
     }
 
+    /**
+     * 计算内容的 git blob SHA-1，与 GitHub 返回的文件 sha 相同
+     * 使用与上传时相同的 UTF-8 编码，不做其他标准化，这样才能与云端的 sha 直接比较
+     */
+    static calculateGitBlobSha(content: string): string {
+        const body = new TextEncoder().encode(content);
+        const header = new TextEncoder().encode(`blob ${body.length}\0`);
+        const data = new Uint8Array(header.length + body.length);
+        data.set(header);
+        data.set(body, header.length);
+        return this.sha1(data);
+    }
+
+    /**
+     * SHA-1 摘要（同步实现，避免为每个文件等待 crypto.subtle）
+     */
+    private static sha1(data: Uint8Array): string {
+        // 填充：追加 0x80，补零到 56 字节（模 64），最后 8 字节为位长度
+        const paddedLength = (((data.length + 8) >> 6) + 1) << 6;
+        const padded = new Uint8Array(paddedLength);
+        padded.set(data);
+        padded[data.length] = 0x80;
+        const view = new DataView(padded.buffer);
+        const bitLength = data.length * 8;
+        view.setUint32(paddedLength - 8, Math.floor(bitLength / 0x100000000));
+        view.setUint32(paddedLength - 4, bitLength >>> 0);
+
+        let h0 = 0x67452301;
+        let h1 = 0xefcdab89;
+        let h2 = 0x98badcfe;
+        let h3 = 0x10325476;
+        let h4 = 0xc3d2e1f0;
+        const w = new Uint32Array(80);
+
+        for (let offset = 0; offset < paddedLength; offset += 64) {
+            for (let i = 0; i < 16; i++) {
+                w[i] = view.getUint32(offset + i * 4);
+            }
+            for (let i = 16; i < 80; i++) {
+                const x = w[i - 3] ^ w[i - 8] ^ w[i - 14] ^ w[i - 16];
+                w[i] = (x << 1) | (x >>> 31);
+            }
+
+            let a = h0, b = h1, c = h2, d = h3, e = h4;
+            for (let i = 0; i < 80; i++) {
+                let f: number, k: number;
+                if (i < 20) {
+                    f = (b & c) | (~b & d);
+                    k = 0x5a827999;
+                } else if (i < 40) {
+                    f = b ^ c ^ d;
+                    k = 0x6ed9eba1;
+                } else if (i < 60) {
+                    f = (b & c) | (b & d) | (c & d);
+                    k = 0x8f1bbcdc;
+                } else {
+                    f = b ^ c ^ d;
+                    k = 0xca62c1d6;
+                }
+                const temp = (((a << 5) | (a >>> 27)) + f + e + k + w[i]) >>> 0;
+                e = d;
+                d = c;
+                c = ((b << 30) | (b >>> 2)) >>> 0;
+                b = a;
+                a = temp;
+            }
+
+            h0 = (h0 + a) >>> 0;
+            h1 = (h1 + b) >>> 0;
+            h2 = (h2 + c) >>> 0;
+            h3 = (h3 + d) >>> 0;
+            h4 = (h4 + e) >>> 0;
+        }
+
+        return [h0, h1, h2, h3, h4].map(h => h.toString(16).padStart(8, '0')).join('');
+    }
+
     /**
      * 比较两个哈希值是否相等
      */
@@ -0,0 +1,48 @@
+import { requestUrl } from 'obsidian';
+
+/**
+ * 不依赖 fetch 的 HTTP 请求方法，用于需要自定义方法（如 PROPFIND）或服务器不支持跨域的存储后端
+ * 响应头的名称统一为小写
+ */
+export interface HttpRequest {
+    url: string;
+    method: string;
+    headers: Record<string, string>;
+    body?: string;
+}
+
+export interface HttpResponse {
+    status: number;
+    headers: Record<string, string>;
+    text: string;
+}
+
+export type HttpTransport = (request: HttpRequest) => Promise<HttpResponse>;
+
+/**
+ * 默认使用 Obsidian 的 requestUrl 发送请求，不受跨域限制
+ */
+export const obsidianTransport: HttpTransport = async (request) => {
+    const response = await requestUrl({ ...request, throw: false });
+    const headers: Record<string, string> = {};
+    for (const [name, value] of Object.entries(response.headers)) {
+        headers[name.toLowerCase()] = value;
+    }
+    return { status: response.status, headers, text: response.text };
+};
+
+/**
+ * 为请求加上超时限制
+ */
+export async function sendWithTimeout(transport: HttpTransport, request: HttpRequest, timeoutMs = 30000): Promise<HttpResponse> {
+    let timeoutId: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+        timeoutId = setTimeout(() => reject(new Error('请求超时，请检查网络连接稳定性')), timeoutMs);
+    });
+
+    try {
+        return await Promise.race([transport(request), timeout]);
+    } finally {
+        clearTimeout(timeoutId);
+    }
+}
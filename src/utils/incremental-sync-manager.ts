@@ -1,7 +1,8 @@
 import { Notice } from 'obsidian';
-import { GitHubClient, GitHubFile } from '../github-client';
+import { RemoteSnippetStore, RemoteFile, FileChange } from '../remote-snippet-store';
 import { LocalSnippetsManager, LocalSnippet } from '../local-snippets-manager';
 import { HashUtils } from './hash-utils';
+import { SyncStateManager, SnippetChangeState } from '../sync-state-manager';
 
 export interface IncrementalSyncResult {
     success: boolean;
@@ -24,21 +25,33 @@ export interface FileComparison {
     cloudContent?: string;
     needsSync: boolean;
     isConflict: boolean;
+    changeState: SnippetChangeState;
     action: 'upload' | 'update' | 'skip' | 'conflict';
+    cloudPath?: string;
 }
 
 /**
  * 增量同步管理器 - 基于文件哈希值的真正增量同步
  */
 export class IncrementalSyncManager {
-    private githubClient: GitHubClient;
+    private remoteStore: RemoteSnippetStore;
     private localManager: LocalSnippetsManager;
+    private syncState: SyncStateManager;
     private hashCache: Map<string, { hash: string, timestamp: number }> = new Map();
     private readonly CACHE_EXPIRY = 5 * 60 * 1000; // 5分钟缓存过期
 
-    constructor(githubClient: GitHubClient, localManager: LocalSnippetsManager) {
-        this.githubClient = githubClient;
+    constructor(remoteStore: RemoteSnippetStore, localManager: LocalSnippetsManager, syncState: SyncStateManager) {
+        this.remoteStore = remoteStore;
         this.localManager = localManager;
+        this.syncState = syncState;
+    }
+
+    /**
+     * 切换远程存储后端，旧后端的哈希缓存不再有效
+     */
+    setRemoteStore(remoteStore: RemoteSnippetStore): void {
+        this.remoteStore = remoteStore;
+        this.hashCache.clear();
     }
 
     /**
@@ -90,7 +103,7 @@ export class IncrementalSyncManager {
             }
 
             // 3. 获取云端文件列表
-            const cloudFiles = await this.githubClient.listFiles();
+            const cloudFiles = await this.remoteStore.listFiles();
             
             // 4. 进行文件比较分析
             const comparisons = await this.analyzeFileComparisons(
@@ -101,20 +114,35 @@ export class IncrementalSyncManager {
 
             console.log(`📊 文件分析完成：需要处理 ${comparisons.length} 个文件`);
 
-            // 5. 处理文件同步
+            // 5. 处理文件同步，需要上传的文件先收集起来
+            const pendingUploads: { comparison: FileComparison, change: FileChange }[] = [];
             for (const comparison of comparisons) {
-                try {
-                    await this.processSingleFileSync(comparison, options.forceOverwrite || false, result);
-                } catch (error) {
-                    console.error(`处理文件 ${comparison.filename} 时出错:`, error);
-                    result.details.conflicts.push(comparison.filename);
+                const change = this.processSingleFileSync(comparison, options.forceOverwrite || false, result);
+                if (change) {
+                    pendingUploads.push({ comparison, change });
+                }
+            }
+
+            // 6. 所有新增和更新作为一个提交推送，要么全部成功，要么全部失败
+            if (pendingUploads.length > 0) {
+                await this.remoteStore.commitChanges(pendingUploads.map(upload => upload.change));
+                for (const { comparison, change } of pendingUploads) {
+                    if (change.action === 'add') {
+                        result.details.uploaded.push(comparison.filename);
+                    } else {
+                        result.details.updated.push(comparison.filename);
+                    }
+                    this.syncState.markSynced(comparison.filename, comparison.localContent!);
                 }
             }
 
+            // 保存本次同步后的基准快照
+            await this.syncState.persist();
+
             result.details.totalProcessed = comparisons.length;
             result.details.totalTime = Date.now() - startTime;
 
-            // 6. 生成结果报告
+            // 7. 生成结果报告
             this.generateSyncReport(result);
 
             result.success = result.details.conflicts.length === 0;
@@ -130,17 +158,18 @@ export class IncrementalSyncManager {
     }
 
     /**
-     * 分析文件比较结果
+     * 分析文件比较结果（基于上次同步的基准快照进行三方比较）
      */
     private async analyzeFileComparisons(
         localSnippets: LocalSnippet[], 
-        cloudFiles: GitHubFile[], 
+        cloudFiles: RemoteFile[], 
         useSecureHash: boolean
     ): Promise<FileComparison[]> {
         const comparisons: FileComparison[] = [];
 
         for (const snippet of localSnippets) {
-            const cloudFile = cloudFiles.find(f => f.name === snippet.name);
+            const cloudMatches = cloudFiles.filter(f => f.name === snippet.name);
+            const cloudFile = cloudMatches[0];
             
             // 标准化本地文件内容并重新计算哈希，确保与云端哈希计算方式完全一致
             const normalizedLocalContent = this.normalizeContent(snippet.content);
@@ -148,44 +177,70 @@ export class IncrementalSyncManager {
                 ? HashUtils.calculateSecureHash(normalizedLocalContent)
                 : HashUtils.calculateHash(normalizedLocalContent);
 
-            if (!cloudFile) {
-                // 云端不存在，需要上传
+            if (cloudMatches.length > 1) {
+                // 云端不同文件夹中有同名文件，无法确定更新哪一个，作为冲突交由用户处理
                 comparisons.push({
                     filename: snippet.name,
                     localHash,
                     cloudHash: '',
                     localContent: snippet.content,
                     needsSync: true,
+                    isConflict: true,
+                    changeState: 'both-changed',
+                    action: 'conflict'
+                });
+                continue;
+            }
+
+            if (!cloudFile) {
+                // 云端不存在：可能是本地新增，也可能是云端已删除（等待删除传播，不重新上传）
+                const changeState = this.syncState.classify(snippet.name, localHash, null, useSecureHash);
+                const deletedInCloud = changeState === 'cloud-deleted';
+                comparisons.push({
+                    filename: snippet.name,
+                    localHash,
+                    cloudHash: '',
+                    localContent: snippet.content,
+                    needsSync: !deletedInCloud,
                     isConflict: false,
-                    action: 'upload'
+                    changeState,
+                    action: deletedInCloud ? 'skip' : 'upload'
                 });
-            } else {
-                // 云端存在，需要比较内容
-                const cloudHash = await this.getCloudFileHash(cloudFile, useSecureHash);
-                
-                if (HashUtils.compareHash(localHash, cloudHash)) {
-                    // 内容相同，跳过
-                    comparisons.push({
-                        filename: snippet.name,
-                        localHash,
-                        cloudHash,
-                        needsSync: false,
-                        isConflict: false,
-                        action: 'skip'
-                    });
-                } else {
-                    // 内容不同，需要更新
-                    comparisons.push({
-                        filename: snippet.name,
-                        localHash,
-                        cloudHash,
-                        localContent: snippet.content,
-                        needsSync: true,
-                        isConflict: false,
-                        action: 'update'
-                    });
-                }
+                continue;
+            }
+
+            const cloudHash = await this.getCloudFileHash(cloudFile, useSecureHash, [snippet.content]);
+            const changeState = this.syncState.classify(snippet.name, localHash, cloudHash, useSecureHash);
+            const comparison: FileComparison = {
+                filename: snippet.name,
+                localHash,
+                cloudHash,
+                localContent: snippet.content,
+                needsSync: false,
+                isConflict: false,
+                changeState,
+                action: 'skip',
+                cloudPath: cloudFile.path
+            };
+
+            switch (changeState) {
+                case 'local-changed':
+                    // 只有本地修改，直接更新云端
+                    comparison.needsSync = true;
+                    comparison.action = 'update';
+                    break;
+                case 'both-changed':
+                    // 两侧都有修改，属于真正的冲突
+                    comparison.needsSync = true;
+                    comparison.isConflict = true;
+                    comparison.action = 'conflict';
+                    break;
+                default:
+                    // 内容相同，或只有云端修改（应由下载同步处理），跳过上传
+                    break;
             }
+
+            comparisons.push(comparison);
         }
 
         return comparisons;
@@ -193,8 +248,9 @@ export class IncrementalSyncManager {
 
     /**
      * 获取云端文件的哈希值（带缓存）
+     * 先用版本标识与已知内容（调用方传入的内容和基准快照）比较，匹配时无需下载
      */
-    private async getCloudFileHash(cloudFile: GitHubFile, useSecureHash: boolean): Promise<string> {
+    async getCloudFileHash(cloudFile: RemoteFile, useSecureHash: boolean, knownContents: string[] = []): Promise<string> {
         const cacheKey = `${cloudFile.path}:${cloudFile.sha}:${useSecureHash}`;
         const cached = this.hashCache.get(cacheKey);
         
@@ -203,9 +259,24 @@ export class IncrementalSyncManager {
             return cached.hash;
         }
 
+        // 后端能在本地计算版本标识时（如 git blob SHA，加密存储为清单中记录的明文版本），与已知内容比较即可确定云端内容
+        const base = this.syncState.getBase(cloudFile.name);
+        const candidates = base ? [...knownContents, base.content] : knownContents;
+        const computeVersion = this.remoteStore.computeVersion?.bind(this.remoteStore);
+        const matched = computeVersion
+            ? candidates.find(content => computeVersion(content) === cloudFile.sha)
+            : undefined;
+        if (matched !== undefined) {
+            const hash = useSecureHash
+                ? HashUtils.calculateSecureHash(this.normalizeContent(matched))
+                : HashUtils.calculateHash(this.normalizeContent(matched));
+            this.hashCache.set(cacheKey, { hash, timestamp: Date.now() });
+            return hash;
+        }
+
         try {
             // 下载云端文件内容并计算哈希
-            const content = await this.githubClient.downloadFile(cloudFile.path);
+            const content = await this.remoteStore.downloadFile(cloudFile.path);
             // 标准化内容确保与本地文件哈希计算一致
             const normalizedContent = this.normalizeContent(content);
             const hash = useSecureHash 
@@ -223,70 +294,50 @@ export class IncrementalSyncManager {
     }
 
     /**
-     * 处理单个文件的同步
+     * 处理单个文件的同步，需要上传时返回待提交的修改
      */
-    private async processSingleFileSync(
+    private processSingleFileSync(
         comparison: FileComparison, 
         forceOverwrite: boolean, 
         result: IncrementalSyncResult
-    ): Promise<void> {
+    ): FileChange | null {
         const { filename, action, localContent } = comparison;
 
         switch (action) {
             case 'skip':
                 result.details.skipped.push(filename);
-                console.log(`⏭️ 跳过同步（内容相同）: ${filename}`);
-                break;
+                if (comparison.changeState === 'unchanged' && localContent !== undefined) {
+                    // 两侧内容一致，刷新基准快照
+                    this.syncState.markSynced(filename, localContent);
+                }
+                if (comparison.changeState === 'cloud-deleted') {
+                    console.log(`⏭️ 跳过上传（云端已删除，等待确认删除本地文件）: ${filename}`);
+                } else if (comparison.changeState === 'cloud-changed') {
+                    console.log(`⏭️ 跳过上传（仅云端有修改）: ${filename}`);
+                } else {
+                    console.log(`⏭️ 跳过同步（内容相同）: ${filename}`);
+                }
+                return null;
 
             case 'upload':
-                try {
-                    const success = await this.githubClient.uploadFile(
-                        filename,
-                        localContent!,
-                        `Add new CSS snippet: ${filename}`
-                    );
-                    
-                    if (success) {
-                        result.details.uploaded.push(filename);
-                        console.log(`⬆️ 新文件上传成功: ${filename}`);
-                    } else {
-                        result.details.conflicts.push(filename);
-                    }
-                } catch (error) {
-                    console.error(`上传新文件失败 ${filename}:`, error);
-                    result.details.conflicts.push(filename);
-                }
-                break;
+                console.log(`⬆️ 新文件等待上传: ${filename}`);
+                return { path: filename, action: 'add', content: localContent! };
 
             case 'update':
-                if (forceOverwrite) {
-                    try {
-                        const success = await this.githubClient.uploadFile(
-                            filename,
-                            localContent!,
-                            `Update CSS snippet: ${filename} (incremental sync)`
-                        );
-                        
-                        if (success) {
-                            result.details.updated.push(filename);
-                            console.log(`🔄 文件更新成功: ${filename}`);
-                        } else {
-                            result.details.conflicts.push(filename);
-                        }
-                    } catch (error) {
-                        console.error(`更新文件失败 ${filename}:`, error);
-                        result.details.conflicts.push(filename);
-                    }
-                } else {
-                    // 标记为冲突，需要用户决定
-                    result.details.conflicts.push(filename);
-                    console.log(`⚠️ 检测到文件冲突: ${filename}`);
+            case 'conflict':
+                if (action === 'update' || forceOverwrite) {
+                    console.log(`🔄 文件等待更新: ${filename}`);
+                    return { path: comparison.cloudPath || filename, action: 'update', content: localContent! };
                 }
-                break;
+                // 本地和云端都有修改，需要用户决定
+                result.details.conflicts.push(filename);
+                console.log(`⚠️ 检测到文件冲突: ${filename}`);
+                return null;
 
             default:
                 result.details.conflicts.push(filename);
                 console.warn(`未知的同步动作: ${action} for ${filename}`);
+                return null;
         }
     }
 
@@ -337,7 +388,7 @@ export class IncrementalSyncManager {
         try {
             const localSnippets = await this.localManager.getSnippetsList();
             const cssSnippets = localSnippets.filter(s => s.name.endsWith('.css'));
-            const cloudFiles = await this.githubClient.listFiles();
+            const cloudFiles = await this.remoteStore.listFiles();
             
             return await this.analyzeFileComparisons(cssSnippets, cloudFiles, useSecureHash);
         } catch (error) {
@@ -0,0 +1,210 @@
+/**
+ * 请求调度器 - 限制并发、读取速率限制响应头，并对可重试的错误进行指数退避重试
+ */
+export interface RateLimitInfo {
+    limit: number;
+    remaining: number;
+    reset: number; // 配额重置时间（毫秒时间戳）
+    updatedAt: number;
+}
+
+export interface RequestSchedulerOptions {
+    maxConcurrent?: number;
+    maxRetries?: number;
+    baseDelayMs?: number;
+    maxDelayMs?: number;
+}
+
+// 服务器出错时可以安全重发的方法；POST/PATCH 等可能已被部分处理，重发会产生重复的 blob 或提交
+const IDEMPOTENT_METHODS = ['GET', 'HEAD'];
+
+export class RequestScheduler {
+    private options: Required<RequestSchedulerOptions>;
+    private active = 0;
+    private queue: (() => void)[] = [];
+    private rateLimit: RateLimitInfo | null = null;
+    private listeners: Set<(info: RateLimitInfo) => void> = new Set();
+
+    constructor(options: RequestSchedulerOptions = {}) {
+        this.options = {
+            maxConcurrent: 4,
+            maxRetries: 3,
+            baseDelayMs: 1000,
+            maxDelayMs: 60 * 1000,
+            ...options
+        };
+    }
+
+    /**
+     * 调度一个请求：排队等待并发名额，配额用完时等待重置，可重试的错误自动重试
+     * task 每次重试都会被重新调用，因此需要在其中创建新的请求（例如新的超时控制器）
+     * 5xx 只对 GET/HEAD 重试；速率限制响应说明请求未被处理，所有方法都可以重试
+     */
+    async execute(task: () => Promise<Response>, method = 'GET'): Promise<Response> {
+        await this.acquire();
+        try {
+            for (let attempt = 0; ; attempt++) {
+                await this.waitForQuota();
+
+                const response = await task();
+                this.updateRateLimit(response);
+
+                const delay = await this.getRetryDelay(response, attempt, IDEMPOTENT_METHODS.includes(method.toUpperCase()));
+                if (delay === null) {
+                    return response;
+                }
+
+                console.warn(`⏳ 请求返回 ${response.status}，${Math.round(delay / 1000)} 秒后重试（第 ${attempt + 1} 次）`);
+                await this.sleep(delay);
+            }
+        } finally {
+            this.release();
+        }
+    }
+
+    /**
+     * 获取最近一次响应中的速率限制信息
+     */
+    getRateLimit(): RateLimitInfo | null {
+        return this.rateLimit;
+    }
+
+    /**
+     * 配额是否已用完且尚未重置
+     */
+    isRateLimited(): boolean {
+        return !!this.rateLimit && this.rateLimit.remaining === 0 && Date.now() < this.rateLimit.reset;
+    }
+
+    /**
+     * 监听速率限制信息变化，返回取消监听的函数
+     */
+    onRateLimitChange(listener: (info: RateLimitInfo) => void): () => void {
+        this.listeners.add(listener);
+        return () => this.listeners.delete(listener);
+    }
+
+    /**
+     * 计算重试等待时间，不需要重试时返回 null
+     */
+    private async getRetryDelay(response: Response, attempt: number, idempotent: boolean): Promise<number | null> {
+        if (attempt >= this.options.maxRetries) {
+            return null;
+        }
+
+        const backoff = Math.min(this.options.baseDelayMs * Math.pow(2, attempt), this.options.maxDelayMs);
+        const retryAfter = response.headers.get('Retry-After');
+        const retryAfterMs = retryAfter ? this.parseRetryAfter(retryAfter) : null;
+
+        if (response.status >= 500) {
+            if (!idempotent) {
+                return null;
+            }
+            return retryAfterMs !== null ? Math.min(retryAfterMs, this.options.maxDelayMs) : backoff;
+        }
+
+        if (response.status === 403 || response.status === 429) {
+            if (retryAfterMs !== null) {
+                // 服务器明确要求等待过久时不再重试，交给调用方处理
+                return retryAfterMs <= this.options.maxDelayMs ? retryAfterMs : null;
+            }
+            if (this.getRateLimitHeader(response, 'Remaining') === '0') {
+                // 主速率限制：只在很快重置时等待
+                const waitMs = this.rateLimit ? this.rateLimit.reset - Date.now() : Infinity;
+                return waitMs <= this.options.maxDelayMs ? Math.max(waitMs, 0) : null;
+            }
+            if (await this.isSecondaryRateLimit(response)) {
+                return backoff;
+            }
+        }
+
+        return null;
+    }
+
+    /**
+     * 根据响应内容判断是否为次级速率限制（短时间内请求过多）
+     */
+    private async isSecondaryRateLimit(response: Response): Promise<boolean> {
+        try {
+            const data = await response.clone().json();
+            return typeof data?.message === 'string' && /secondary rate limit|abuse/i.test(data.message);
+        } catch {
+            return false;
+        }
+    }
+
+    /**
+     * Retry-After 可以是秒数或 HTTP 日期
+     */
+    private parseRetryAfter(value: string): number | null {
+        const seconds = Number(value);
+        if (!isNaN(seconds)) {
+            return seconds * 1000;
+        }
+        const date = Date.parse(value);
+        return isNaN(date) ? null : Math.max(date - Date.now(), 0);
+    }
+
+    /**
+     * 从响应头更新速率限制信息
+     */
+    private updateRateLimit(response: Response): void {
+        const remaining = this.getRateLimitHeader(response, 'Remaining');
+        const reset = this.getRateLimitHeader(response, 'Reset');
+        if (remaining === null || reset === null) {
+            return;
+        }
+
+        this.rateLimit = {
+            limit: Number(this.getRateLimitHeader(response, 'Limit') || 0),
+            remaining: Number(remaining),
+            reset: Number(reset) * 1000,
+            updatedAt: Date.now()
+        };
+        for (const listener of this.listeners) {
+            listener(this.rateLimit);
+        }
+    }
+
+    /**
+     * 读取速率限制响应头：GitHub 使用 X-RateLimit-*，GitLab 使用 RateLimit-*
+     */
+    private getRateLimitHeader(response: Response, name: 'Limit' | 'Remaining' | 'Reset'): string | null {
+        return response.headers.get(`X-RateLimit-${name}`) ?? response.headers.get(`RateLimit-${name}`);
+    }
+
+    /**
+     * 配额用完时，若很快重置则等待，否则直接发送请求由服务器返回错误
+     */
+    private async waitForQuota(): Promise<void> {
+        if (!this.isRateLimited() || !this.rateLimit) {
+            return;
+        }
+        const waitMs = this.rateLimit.reset - Date.now();
+        if (waitMs <= this.options.maxDelayMs) {
+            await this.sleep(waitMs);
+        }
+    }
+
+    private async acquire(): Promise<void> {
+        if (this.active < this.options.maxConcurrent) {
+            this.active++;
+            return;
+        }
+        await new Promise<void>(resolve => this.queue.push(resolve));
+    }
+
+    private release(): void {
+        const next = this.queue.shift();
+        if (next) {
+            // 名额直接交给下一个等待的请求
+            next();
+        } else {
+            this.active--;
+        }
+    }
+
+    private sleep(ms: number): Promise<void> {
+        return new Promise(resolve => setTimeout(resolve, ms));
+    }
+}
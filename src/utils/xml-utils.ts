@@ -0,0 +1,42 @@
+/**
+ * XML 工具 - 从 WebDAV、S3 等接口的 XML 响应中读取字段
+ * 不同服务器使用的命名空间前缀不同（d:、D:、lp1: 或无前缀），一律按本地名称匹配
+ */
+export class XmlUtils {
+    /**
+     * 获取所有指定元素的内部内容
+     */
+    static getBlocks(xml: string, localName: string): string[] {
+        const pattern = new RegExp(`<(?:[\\w-]+:)?${localName}(?:\\s[^>]*)?>([\\s\\S]*?)</(?:[\\w-]+:)?${localName}>`, 'gi');
+        const blocks: string[] = [];
+        let match: RegExpExecArray | null;
+        while ((match = pattern.exec(xml)) !== null) {
+            blocks.push(match[1]);
+        }
+        return blocks;
+    }
+
+    /**
+     * 获取第一个指定元素的文本内容，不存在时返回空字符串
+     */
+    static getValue(xml: string, localName: string): string {
+        const block = this.getBlocks(xml, localName)[0];
+        return block === undefined ? '' : this.decodeEntities(block.trim());
+    }
+
+    /**
+     * 是否包含指定元素（包括自闭合元素，如 <d:collection/>）
+     */
+    static hasElement(xml: string, localName: string): boolean {
+        return new RegExp(`<(?:[\\w-]+:)?${localName}[\\s/>]`, 'i').test(xml);
+    }
+
+    static decodeEntities(text: string): string {
+        return text
+            .replace(/&quot;/g, '"')
+            .replace(/&apos;/g, "'")
+            .replace(/&lt;/g, '<')
+            .replace(/&gt;/g, '>')
+            .replace(/&amp;/g, '&');
+    }
+}
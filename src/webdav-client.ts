@@ -0,0 +1,459 @@
+import { SecurityUtils } from './security-utils';
+import { CacheManager, CacheOptions } from './utils/cache-manager';
+import { HttpResponse, HttpTransport, obsidianTransport, sendWithTimeout } from './utils/http-transport';
+import { XmlUtils } from './utils/xml-utils';
+import { RemoteSnippetStore, RemoteFile, RemoteRevision, FileChange } from './remote-snippet-store';
+
+interface WebDAVEntry {
+    path: string; // 相对于根目录的路径
+    isCollection: boolean;
+    etag: string;
+    weakEtag: boolean; // W/ 开头的弱 ETag 不能用于 If-Match
+    size: number;
+    lastModified?: string;
+}
+
+interface CachedContent {
+    etag: string;
+    content: string;
+}
+
+/**
+ * WebDAV 存储 - 通过 PROPFIND/GET/PUT/DELETE 读写 Nextcloud 等服务器上某个文件夹中的片段
+ * 以 ETag 作为版本标识：列表中的 ETag 用于判断文件是否变化，下载时带上缓存的 ETag 避免重复传输
+ */
+export class WebDAVClient implements RemoteSnippetStore {
+    static readonly CONTENT_CACHE_ID = 'webdav-content';
+    // 缓存内容由 ETag 校验，只需控制条目数量
+    private static readonly CONTENT_CACHE_OPTIONS: CacheOptions = {
+        expiryMs: 30 * 24 * 60 * 60 * 1000,
+        maxItems: 2000
+    };
+
+    readonly displayName = 'WebDAV';
+    private baseUrl: string;
+    private username: string;
+    private password: string;
+    private transport: HttpTransport;
+    private knownEtags: Map<string, string> = new Map(); // 最近一次列表中每个文件的 ETag
+    private weakEtagPaths: Set<string> = new Set(); // 服务器只返回弱 ETag 的文件
+
+    constructor(baseUrl: string, username: string, password: string, transport: HttpTransport = obsidianTransport) {
+        this.baseUrl = this.normalizeBaseUrl(baseUrl);
+        this.username = username;
+        this.password = password;
+        this.transport = transport;
+    }
+
+    /**
+     * 验证 WebDAV 连接：根目录可以访问即认为成功
+     */
+    async authenticate(): Promise<boolean> {
+        try {
+            const response = await this.request('PROPFIND', '', { 'Depth': '0' }, this.propfindBody());
+            if (response.status !== 207) {
+                throw new Error(this.describeStatus(response.status));
+            }
+            return true;
+        } catch (error) {
+            SecurityUtils.logError(error, 'WebDAV authentication failed');
+            return false;
+        }
+    }
+
+    /**
+     * 逐层列出文件夹中的 .css 文件
+     * 很多服务器禁用了 Depth: infinity，因此每个子文件夹单独查询
+     */
+    async listFiles(path = '', includeLastModified = false): Promise<RemoteFile[]> {
+        try {
+            const entries = await this.listCollection(path.replace(/^\/+|\/+$/g, ''));
+            const files = entries
+                .filter(entry => !entry.isCollection && entry.path.endsWith('.css'))
+                .map(entry => {
+                    this.rememberEtag(entry.path, entry.etag, entry.weakEtag);
+                    return {
+                        name: entry.path.split('/').pop() || entry.path,
+                        path: entry.path,
+                        sha: entry.etag,
+                        size: entry.size,
+                        url: this.fileUrl(entry.path),
+                        // PROPFIND 已经返回了修改时间，不需要额外请求
+                        lastModified: includeLastModified ? this.toIsoDate(entry.lastModified) : undefined
+                    };
+                });
+
+            return files;
+        } catch (error) {
+            console.error('Error listing files:', error);
+            throw error;
+        }
+    }
+
+    /**
+     * 下载文件内容，带上缓存的 ETag，未修改时服务器返回 304 直接使用缓存
+     */
+    async downloadFile(path: string): Promise<string> {
+        try {
+            const cache = CacheManager.getInstance();
+            const cacheKey = this.fileUrl(path);
+            const cached = cache.get<CachedContent>(WebDAVClient.CONTENT_CACHE_ID, cacheKey, WebDAVClient.CONTENT_CACHE_OPTIONS);
+
+            // 缓存的 ETag 与列表中的一致时无需请求
+            if (cached && cached.etag === this.knownEtags.get(path)) {
+                return cached.content;
+            }
+
+            const headers: Record<string, string> = cached ? { 'If-None-Match': cached.etag } : {};
+            const response = await this.request('GET', path, headers);
+
+            if (response.status === 304 && cached) {
+                return cached.content;
+            }
+            if (response.status !== 200) {
+                throw new Error(this.describeStatus(response.status));
+            }
+
+            // 文件大小限制 (10MB)
+            const MAX_FILE_SIZE = 10 * 1024 * 1024;
+            if (response.text.length > MAX_FILE_SIZE) {
+                throw new Error(`文件过大 (${Math.round(response.text.length / 1024 / 1024)}MB)，最大允许10MB`);
+            }
+
+            const etag = this.normalizeEtag(response.headers['etag']);
+            if (etag) {
+                this.rememberEtag(path, etag, this.isWeakEtag(response.headers['etag']));
+                cache.set<CachedContent>(WebDAVClient.CONTENT_CACHE_ID, cacheKey, { etag, content: response.text }, WebDAVClient.CONTENT_CACHE_OPTIONS);
+            }
+            return response.text;
+        } catch (error) {
+            console.error('Error downloading file:', error);
+            throw error;
+        }
+    }
+
+    /**
+     * 上传或更新文件
+     */
+    async uploadFile(path: string, content: string, message?: string): Promise<boolean> {
+        await this.commitChanges([{ path, action: 'add', content }], message);
+        return true;
+    }
+
+    /**
+     * 删除文件
+     */
+    async deleteFile(path: string, message?: string): Promise<boolean> {
+        await this.commitChanges([{ path, action: 'delete' }], message);
+        return true;
+    }
+
+    /**
+     * 重命名文件：先写入新路径再删除旧路径，失败时回滚
+     */
+    async renameFile(oldPath: string, newPath: string, content: string, message?: string): Promise<boolean> {
+        await this.commitChanges([
+            { path: newPath, action: 'add', content },
+            { path: oldPath, action: 'delete' }
+        ], message);
+        return true;
+    }
+
+    /**
+     * 依次写入多个修改。WebDAV 没有事务，任何一项失败时把已完成的修改恢复原状
+     * 更新和删除带上已知的 ETag（If-Match），文件在此期间被他人修改时失败而不是覆盖
+     * WebDAV 没有提交的概念，返回完成时间作为版本标识
+     */
+    async commitChanges(changes: FileChange[], message?: string): Promise<string> {
+        if (changes.length === 0) {
+            throw new Error('No changes to commit');
+        }
+
+        const applied: { change: FileChange, previous: string | null }[] = [];
+        try {
+            for (const change of changes) {
+                const etag = this.knownEtags.get(change.path);
+                // 记录修改前的内容用于回滚
+                const previous = etag ? await this.downloadFile(change.path) : null;
+
+                if (change.action === 'delete') {
+                    await this.deleteRemote(change.path, etag);
+                } else {
+                    await this.putRemote(change.path, change.content || '', etag);
+                }
+                applied.push({ change, previous });
+            }
+        } catch (error) {
+            console.error('Error committing changes:', error);
+            await this.rollback(applied);
+            throw error;
+        }
+
+        console.log(`📦 已写入 ${changes.length} 个文件的修改${message ? `: ${message.split('\n')[0]}` : ''}`);
+        return new Date().toISOString();
+    }
+
+    /**
+     * WebDAV 不保存历史版本，只返回当前版本
+     */
+    async getHistory(path: string, limit = 20): Promise<RemoteRevision[]> {
+        const entry = (await this.listFiles('', true)).find(file => file.path === path);
+        return entry ? [{ id: entry.sha, date: entry.lastModified || 'Unknown' }] : [];
+    }
+
+    /**
+     * 只能读取当前版本
+     */
+    async downloadRevision(path: string, revisionId: string): Promise<string> {
+        await this.listFiles();
+        if (this.knownEtags.get(path) !== revisionId) {
+            throw new Error(`Revision not found: ${path}@${revisionId}`);
+        }
+        return this.downloadFile(path);
+    }
+
+    /**
+     * 列出文件夹及其子文件夹中的所有条目，根目录不存在时视为空
+     */
+    private async listCollection(path: string): Promise<WebDAVEntry[]> {
+        const response = await this.request('PROPFIND', path ? `${path}/` : '', { 'Depth': '1' }, this.propfindBody());
+        if (response.status === 404 && !path) {
+            return [];
+        }
+        if (response.status !== 207) {
+            throw new Error(this.describeStatus(response.status));
+        }
+
+        const entries: WebDAVEntry[] = [];
+        for (const entry of this.parseMultistatus(response.text)) {
+            // 结果中包含文件夹自身
+            if (entry.path === path) {
+                continue;
+            }
+            entries.push(entry);
+            if (entry.isCollection) {
+                entries.push(...await this.listCollection(entry.path));
+            }
+        }
+        return entries;
+    }
+
+    private async putRemote(path: string, content: string, etag?: string): Promise<void> {
+        const headers: Record<string, string> = {
+            'Content-Type': 'text/css; charset=utf-8',
+            ...await this.preconditionHeaders(path, etag)
+        };
+
+        let response = await this.request('PUT', path, headers, content);
+        if (response.status === 409) {
+            // 上级文件夹不存在，创建后重试
+            await this.ensureCollections(path);
+            response = await this.request('PUT', path, headers, content);
+        }
+        if (response.status < 200 || response.status >= 300) {
+            throw new Error(`${path}: ${this.describeStatus(response.status)}`);
+        }
+
+        const newEtag = this.normalizeEtag(response.headers['etag']);
+        if (newEtag) {
+            this.rememberEtag(path, newEtag, this.isWeakEtag(response.headers['etag']));
+            CacheManager.getInstance().set<CachedContent>(WebDAVClient.CONTENT_CACHE_ID, this.fileUrl(path), { etag: newEtag, content }, WebDAVClient.CONTENT_CACHE_OPTIONS);
+        } else {
+            // 服务器没有返回 ETag，下次列表时再获取
+            this.forgetEtag(path);
+        }
+    }
+
+    private async deleteRemote(path: string, etag?: string): Promise<void> {
+        const headers = await this.preconditionHeaders(path, etag);
+        const response = await this.request('DELETE', path, headers);
+        if (response.status < 200 || response.status >= 300) {
+            throw new Error(`${path}: ${this.describeStatus(response.status)}`);
+        }
+        this.forgetEtag(path);
+        CacheManager.getInstance().delete(WebDAVClient.CONTENT_CACHE_ID, this.fileUrl(path));
+    }
+
+    /**
+     * 写入前确认文件未被他人修改的条件请求头
+     * If-Match 要求强比较（RFC 7232），弱 ETag 会被拒绝，因此先用 PROPFIND 读取当前 ETag 比较，再无条件写入
+     */
+    private async preconditionHeaders(path: string, etag?: string): Promise<Record<string, string>> {
+        if (!etag) {
+            return {};
+        }
+        if (!this.weakEtagPaths.has(path)) {
+            return { 'If-Match': `"${etag}"` };
+        }
+
+        const response = await this.request('PROPFIND', path, { 'Depth': '0' }, this.propfindBody());
+        const current = response.status === 207 ? this.parseMultistatus(response.text).find(entry => entry.path === path) : undefined;
+        if (!current || current.etag !== etag) {
+            throw new Error(`${path}: ${this.describeStatus(412)}`);
+        }
+        return {};
+    }
+
+    private rememberEtag(path: string, etag: string, weak: boolean): void {
+        this.knownEtags.set(path, etag);
+        if (weak) {
+            this.weakEtagPaths.add(path);
+        } else {
+            this.weakEtagPaths.delete(path);
+        }
+    }
+
+    private forgetEtag(path: string): void {
+        this.knownEtags.delete(path);
+        this.weakEtagPaths.delete(path);
+    }
+
+    /**
+     * 按相反顺序撤销已完成的修改
+     */
+    private async rollback(applied: { change: FileChange, previous: string | null }[]): Promise<void> {
+        for (const { change, previous } of applied.reverse()) {
+            try {
+                if (previous === null) {
+                    await this.deleteRemote(change.path);
+                } else {
+                    await this.putRemote(change.path, previous);
+                }
+            } catch (error) {
+                console.error(`回滚 ${change.path} 失败:`, error);
+            }
+        }
+    }
+
+    /**
+     * 逐级创建文件所在的文件夹（包括根目录）
+     */
+    private async ensureCollections(path: string): Promise<void> {
+        const segments = path.split('/').slice(0, -1);
+        const rootResponse = await this.request('MKCOL', '');
+        if (rootResponse.status !== 201 && rootResponse.status !== 405) {
+            throw new Error(this.describeStatus(rootResponse.status));
+        }
+        for (let i = 1; i <= segments.length; i++) {
+            // 405 表示文件夹已存在
+            const response = await this.request('MKCOL', `${segments.slice(0, i).join('/')}/`);
+            if (response.status !== 201 && response.status !== 405) {
+                throw new Error(this.describeStatus(response.status));
+            }
+        }
+    }
+
+    /**
+     * 解析 PROPFIND 返回的 multistatus XML
+     */
+    private parseMultistatus(xml: string): WebDAVEntry[] {
+        const basePath = decodeURIComponent(new URL(this.baseUrl).pathname);
+        const entries: WebDAVEntry[] = [];
+
+        for (const block of XmlUtils.getBlocks(xml, 'response')) {
+            const href = XmlUtils.getValue(block, 'href');
+            if (!href) {
+                continue;
+            }
+
+            // href 可能是完整 URL 或绝对路径
+            const hrefPath = decodeURIComponent(href.startsWith('http') ? new URL(href).pathname : href);
+            if (!hrefPath.startsWith(basePath)) {
+                continue;
+            }
+
+            entries.push({
+                path: hrefPath.slice(basePath.length).replace(/\/+$/, ''),
+                isCollection: XmlUtils.hasElement(block, 'collection'),
+                etag: this.normalizeEtag(XmlUtils.getValue(block, 'getetag')),
+                weakEtag: this.isWeakEtag(XmlUtils.getValue(block, 'getetag')),
+                size: Number(XmlUtils.getValue(block, 'getcontentlength') || 0),
+                lastModified: XmlUtils.getValue(block, 'getlastmodified') || undefined
+            });
+        }
+
+        return entries;
+    }
+
+    private propfindBody(): string {
+        return '<?xml version="1.0" encoding="utf-8"?>' +
+            '<d:propfind xmlns:d="DAV:"><d:prop>' +
+            '<d:resourcetype/><d:getetag/><d:getcontentlength/><d:getlastmodified/>' +
+            '</d:prop></d:propfind>';
+    }
+
+    /**
+     * 去掉 ETag 的引号和弱校验前缀，便于比较
+     */
+    private normalizeEtag(etag: string | undefined): string {
+        return (etag || '').replace(/^W\//, '').replace(/^"|"$/g, '');
+    }
+
+    private isWeakEtag(etag: string | undefined): boolean {
+        return (etag || '').startsWith('W/');
+    }
+
+    /**
+     * 服务器返回的修改时间可能缺失或无法解析，此时返回空字符串
+     */
+    private toIsoDate(value: string | undefined): string {
+        const date = new Date(value || '');
+        return isNaN(date.getTime()) ? '' : date.toISOString();
+    }
+
+    private fileUrl(path: string): string {
+        return `${this.baseUrl}${path.split('/').map(encodeURIComponent).join('/')}`;
+    }
+
+    private normalizeBaseUrl(url: string): string {
+        const trimmed = url.trim();
+        return trimmed.endsWith('/') ? trimmed : `${trimmed}/`;
+    }
+
+    private describeStatus(status: number): string {
+        switch (status) {
+            case 401:
+                return '用户名或密码错误';
+            case 403:
+                return '没有访问权限，请检查账号权限';
+            case 404:
+                return '文件或文件夹不存在，请检查 WebDAV 地址';
+            case 412:
+                return '云端文件已被其他设备修改，请重新同步';
+            case 507:
+                return '服务器存储空间不足';
+            default:
+                return `HTTP ${status}`;
+        }
+    }
+
+    /**
+     * 发送 WebDAV 请求
+     */
+    private async request(method: string, path: string, headers: Record<string, string> = {}, body?: string): Promise<HttpResponse> {
+        const url = this.fileUrl(path);
+        const requestHeaders: Record<string, string> = {
+            'Authorization': `Basic ${btoa(unescape(encodeURIComponent(`${this.username}:${this.password}`)))}`,
+            ...headers
+        };
+        if (body && method === 'PROPFIND') {
+            requestHeaders['Content-Type'] = 'application/xml; charset=utf-8';
+        }
+
+        console.log(`🌐 发送请求: ${method} ${url}`);
+        const response = await sendWithTimeout(this.transport, { url, method, headers: requestHeaders, body });
+        console.log(`📡 响应状态: ${response.status}`);
+        return response;
+    }
+
+    /**
+     * 更新服务器地址和凭据
+     */
+    updateCredentials(baseUrl: string, username: string, password: string) {
+        this.baseUrl = this.normalizeBaseUrl(baseUrl);
+        this.username = username;
+        this.password = password;
+        this.knownEtags.clear();
+        this.weakEtagPaths.clear();
+    }
+}
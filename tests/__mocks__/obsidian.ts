@@ -0,0 +1,20 @@
+/**
+ * obsidian 模块的最小模拟：只提供 src 中用到的运行时接口
+ */
+export class Notice {
+    constructor(_message?: string, _timeout?: number) {}
+    hide(): void {}
+}
+
+export const Platform = {
+    isDesktopApp: true,
+    isMobile: false
+};
+
+export const requestUrl = jest.fn(async (_request: unknown): Promise<unknown> => {
+    throw new Error('requestUrl 未在测试中模拟');
+});
+
+export function normalizePath(path: string): string {
+    return path.replace(/\\/g, '/').replace(/\/+/g, '/').replace(/^\/|\/$/g, '');
+}
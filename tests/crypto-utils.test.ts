@@ -0,0 +1,44 @@
+import { CryptoUtils } from '../src/utils/crypto-utils';
+
+describe('CryptoUtils', () => {
+    it('encrypts with a random IV and decrypts with the same key', async () => {
+        const key = await CryptoUtils.importKey(CryptoUtils.generateKey());
+
+        const first = await CryptoUtils.encrypt(key, 'ghp_secret 中文');
+        const second = await CryptoUtils.encrypt(key, 'ghp_secret 中文');
+
+        expect(first).toMatch(/^v2:/);
+        expect(first).not.toBe(second);
+        await expect(CryptoUtils.decrypt(key, first)).resolves.toBe('ghp_secret 中文');
+    });
+
+    it('rejects tampered data and data from the legacy obfuscation', async () => {
+        const key = await CryptoUtils.importKey(CryptoUtils.generateKey());
+        const encrypted = await CryptoUtils.encrypt(key, 'secret');
+        const tampered = encrypted.slice(0, -4) + (encrypted.endsWith('AAAA') ? 'BBBB' : 'AAAA');
+
+        await expect(CryptoUtils.decrypt(key, tampered)).rejects.toThrow();
+        await expect(CryptoUtils.decrypt(key, 'bGVnYWN5')).rejects.toThrow('不是当前格式的加密数据');
+        expect(CryptoUtils.isEncrypted('bGVnYWN5')).toBe(false);
+        expect(CryptoUtils.isEncrypted(undefined)).toBe(false);
+    });
+
+    it('unlocks with the right passphrase only', async () => {
+        const { params, key } = await CryptoUtils.createKeyParams('correct horse');
+        const encrypted = await CryptoUtils.encrypt(key, 'secret');
+
+        const unlocked = await CryptoUtils.unlock('correct horse', params);
+        expect(unlocked).not.toBeNull();
+        await expect(CryptoUtils.decrypt(unlocked!, encrypted)).resolves.toBe('secret');
+        await expect(CryptoUtils.unlock('wrong', params)).resolves.toBeNull();
+        await expect(CryptoUtils.unlock('correct horse', { ...params, version: 3 })).rejects.toThrow('不支持的加密格式版本');
+    });
+
+    it('accepts only Base64 encoded 256-bit keys', async () => {
+        expect(CryptoUtils.isValidKey(CryptoUtils.generateKey())).toBe(true);
+        expect(CryptoUtils.isValidKey(` ${CryptoUtils.generateKey()}\n`)).toBe(true);
+        expect(CryptoUtils.isValidKey(btoa('too short'))).toBe(false);
+        expect(CryptoUtils.isValidKey('not base64!')).toBe(false);
+        await expect(CryptoUtils.importKey('not base64!')).rejects.toThrow('密钥格式不正确');
+    });
+});
@@ -0,0 +1,110 @@
+import { CSSMergeEngine } from '../src/utils/css-merge';
+
+const BASE = [
+    '.a {',
+    '    color: red;',
+    '    margin: 0;',
+    '}',
+    '',
+    '.b {',
+    '    color: blue;',
+    '}'
+].join('\n');
+
+describe('CSSMergeEngine.merge', () => {
+    it('merges edits to different properties of the same rule', () => {
+        const local = BASE.replace('color: red;', 'color: green;');
+        const cloud = BASE.replace('margin: 0;', 'margin: 4px;');
+
+        const result = CSSMergeEngine.merge(BASE, local, cloud);
+
+        expect(result.clean).toBe(true);
+        expect(result.content).toBe(BASE.replace('color: red;', 'color: green;').replace('margin: 0;', 'margin: 4px;'));
+    });
+
+    it('merges edits to different rules', () => {
+        const local = BASE.replace('color: red;', 'color: green;');
+        const cloud = BASE.replace('color: blue;', 'color: navy;');
+
+        const result = CSSMergeEngine.merge(BASE, local, cloud);
+
+        expect(result.clean).toBe(true);
+        expect(result.content).toBe(BASE.replace('color: red;', 'color: green;').replace('color: blue;', 'color: navy;'));
+    });
+
+    it('keeps new rules added at the same place on both sides', () => {
+        const local = `${BASE}\n\n.x { a: 1; }`;
+        const cloud = `${BASE}\n\n.y { b: 2; }`;
+
+        const result = CSSMergeEngine.merge(BASE, local, cloud);
+
+        expect(result.clean).toBe(true);
+        expect(result.content).toBe(`${BASE}\n\n.x { a: 1; }\n\n.y { b: 2; }`);
+    });
+
+    it('keeps new rules added between existing rules on both sides', () => {
+        const local = BASE.replace('\n\n.b {', '\n\n.x { a: 1; }\n\n.b {');
+        const cloud = BASE.replace('\n\n.b {', '\n\n.y { b: 2; }\n\n.b {');
+
+        const result = CSSMergeEngine.merge(BASE, local, cloud);
+
+        expect(result.clean).toBe(true);
+        expect(result.content).toBe(BASE.replace('\n\n.b {', '\n\n.x { a: 1; }\n\n.y { b: 2; }\n\n.b {'));
+    });
+
+    it('applies a deletion when the other side left the rule unchanged', () => {
+        const local = BASE.replace('\n\n.b {\n    color: blue;\n}', '');
+        const cloud = BASE.replace('color: red;', 'color: green;');
+
+        const result = CSSMergeEngine.merge(BASE, local, cloud);
+
+        expect(result.clean).toBe(true);
+        expect(result.content).toBe('.a {\n    color: green;\n    margin: 0;\n}');
+    });
+
+    it('reports a conflict when one side deletes a rule the other side edited', () => {
+        const local = BASE.replace('\n\n.b {\n    color: blue;\n}', '');
+        const cloud = BASE.replace('color: blue;', 'color: navy;');
+
+        const result = CSSMergeEngine.merge(BASE, local, cloud);
+
+        expect(result.clean).toBe(false);
+        expect(result.conflicts).toHaveLength(1);
+        expect(result.conflicts[0]).toMatchObject({ selector: '.b', local: [] });
+        expect(CSSMergeEngine.hasConflictMarkers(result.content)).toBe(true);
+    });
+
+    it('reports a conflict when both sides change the same property differently', () => {
+        const local = BASE.replace('color: red;', 'color: green;');
+        const cloud = BASE.replace('color: red;', 'color: purple;');
+
+        const result = CSSMergeEngine.merge(BASE, local, cloud);
+
+        expect(result.clean).toBe(false);
+        expect(result.conflicts).toEqual([{
+            index: 0,
+            selector: '.a',
+            base: ['    color: red;'],
+            local: ['    color: green;'],
+            cloud: ['    color: purple;']
+        }]);
+        expect(result.content).toContain('<<<<<<< local\n    color: green;\n=======\n    color: purple;\n>>>>>>> cloud');
+    });
+
+    it('reports a conflict when both sides add the same selector with different content', () => {
+        const result = CSSMergeEngine.merge(BASE, `${BASE}\n\n.x { a: 1; }`, `${BASE}\n\n.x { a: 2; }`);
+
+        expect(result.clean).toBe(false);
+        expect(result.conflicts[0].selector).toBe('.x');
+    });
+});
+
+describe('CSSMergeEngine.diffLines', () => {
+    it('groups equal and changed lines', () => {
+        expect(CSSMergeEngine.diffLines('a\nb\nc', 'a\nx\nc')).toEqual([
+            { kind: 'equal', local: ['a'], cloud: ['a'] },
+            { kind: 'changed', local: ['b'], cloud: ['x'] },
+            { kind: 'equal', local: ['c'], cloud: ['c'] }
+        ]);
+    });
+});
@@ -0,0 +1,59 @@
+import { EncryptedSnippetStore } from '../src/encrypted-store';
+import { MemorySnippetStore } from '../src/memory-snippet-store';
+import { CacheManager } from '../src/utils/cache-manager';
+import { CryptoUtils } from '../src/utils/crypto-utils';
+
+describe('EncryptedSnippetStore', () => {
+    let inner: MemorySnippetStore;
+    let key: string;
+    let store: EncryptedSnippetStore;
+
+    beforeEach(() => {
+        CacheManager.getInstance().clearAll();
+        inner = new MemorySnippetStore({ 'plain.css': 'p{}' });
+        key = CryptoUtils.generateKey();
+        store = new EncryptedSnippetStore(inner, key);
+    });
+
+    it('uploads ciphertext and downloads the original content', async () => {
+        await store.uploadFile('themes/dark.css', 'body{color:#fff}');
+
+        const stored = await inner.downloadFile('themes/dark.css');
+        expect(stored.startsWith('/* css-snippets-manager: encrypted */\n')).toBe(true);
+        expect(stored).not.toContain('color');
+        await expect(store.downloadFile('themes/dark.css')).resolves.toBe('body{color:#fff}');
+    });
+
+    it('returns files uploaded before encryption was enabled unchanged', async () => {
+        await expect(store.downloadFile('plain.css')).resolves.toBe('p{}');
+    });
+
+    it('lists plaintext versions for files whose ciphertext version is known', async () => {
+        await store.commitChanges([
+            { path: 'a.css', action: 'add', content: 'a{}' },
+            { path: 'plain.css', action: 'delete' }
+        ]);
+
+        const files = await store.listFiles();
+
+        expect(files.map(file => [file.path, file.sha])).toEqual([['a.css', store.computeVersion('a{}')]]);
+    });
+
+    it('fails to decrypt with a different key', async () => {
+        await store.uploadFile('a.css', 'a{}');
+
+        const otherStore = new EncryptedSnippetStore(inner, CryptoUtils.generateKey());
+
+        await expect(otherStore.downloadFile('a.css')).rejects.toThrow('无法解密云端片段');
+    });
+
+    it('refuses to read or write without a key', async () => {
+        const locked = new EncryptedSnippetStore(inner, '');
+
+        await expect(locked.listFiles()).rejects.toThrow('密钥不可用');
+        await expect(locked.downloadFile('plain.css')).rejects.toThrow('密钥不可用');
+        await expect(locked.uploadFile('a.css', 'a{}')).rejects.toThrow('密钥不可用');
+        await expect(locked.deleteFile('plain.css')).rejects.toThrow('密钥不可用');
+        await expect(inner.downloadFile('plain.css')).resolves.toBe('p{}');
+    });
+});
@@ -0,0 +1,126 @@
+import { GistClient } from '../src/gist-client';
+import { GitHubClient } from '../src/github-client';
+import { CacheManager } from '../src/utils/cache-manager';
+import { HashUtils } from '../src/utils/hash-utils';
+import { mockFetch, MockRequest } from './helpers/mock-server';
+
+const RAW_HOST = 'https://gist.githubusercontent.com';
+
+/**
+ * 模拟一个 Gist：每次 PATCH 生成新的修订，history 按从新到旧排列
+ * truncated 中的文件在 API 响应中被截断，只能从 raw_url 下载
+ */
+function createGistServer(initialFiles: Record<string, string>, options: { truncated?: string[] } = {}) {
+    const revisions: { version: string, committedAt: string, files: Record<string, string> }[] = [];
+    const truncated = new Set(options.truncated || []);
+    const rawContents = new Map<string, string>();
+
+    const addRevision = (files: Record<string, string>) => {
+        revisions.unshift({ version: `rev-${revisions.length + 1}`, committedAt: `2024-01-0${revisions.length + 1}T00:00:00Z`, files });
+    };
+    const toGistFiles = (files: Record<string, string>) => {
+        const result: Record<string, unknown> = {};
+        for (const [filename, content] of Object.entries(files)) {
+            const sha = HashUtils.calculateGitBlobSha(content);
+            const rawUrl = `${RAW_HOST}/octocat/g1/raw/${sha}/${filename}`;
+            rawContents.set(rawUrl, content);
+            result[filename] = truncated.has(filename)
+                ? { filename, size: content.length, raw_url: rawUrl, content: content.slice(0, 2), truncated: true }
+                : { filename, size: content.length, raw_url: rawUrl, content };
+        }
+        return result;
+    };
+    addRevision(initialFiles);
+
+    const requests = mockFetch((request: MockRequest) => {
+        if (request.url.startsWith(RAW_HOST)) {
+            return rawContents.has(request.url) ? { body: rawContents.get(request.url) } : undefined;
+        }
+        const path = new URL(request.url).pathname;
+        if (path === '/gists/g1' && request.method === 'GET') {
+            return {
+                body: {
+                    files: toGistFiles(revisions[0].files),
+                    history: revisions.map(revision => ({ version: revision.version, committed_at: revision.committedAt, user: { login: 'octocat' } }))
+                }
+            };
+        }
+        if (path === '/gists/g1' && request.method === 'PATCH') {
+            const files = { ...revisions[0].files };
+            for (const [filename, change] of Object.entries(JSON.parse(request.body!).files as Record<string, { content?: string, filename?: string } | null>)) {
+                const content = change?.content ?? files[filename];
+                delete files[filename];
+                if (change) {
+                    files[change.filename || filename] = content;
+                }
+            }
+            addRevision(files);
+            return { body: { history: [{ version: revisions[0].version }] } };
+        }
+        const revision = revisions.find(item => path === `/gists/g1/${item.version}`);
+        return revision ? { body: { files: toGistFiles(revision.files) } } : undefined;
+    });
+
+    return { revisions, requests };
+}
+
+describe('GistClient', () => {
+    let client: GistClient;
+
+    beforeEach(() => {
+        CacheManager.getInstance().clearAll();
+        client = new GistClient(new GitHubClient(`ghp_${'c'.repeat(36)}`, ''), 'g1');
+    });
+
+    it('lists .css files with the blob SHA from raw_url', async () => {
+        createGistServer({ 'a.css': 'a{}', 'README.md': '# notes' });
+
+        const files = await client.listFiles();
+
+        expect(files.map(file => [file.path, file.sha])).toEqual([['a.css', HashUtils.calculateGitBlobSha('a{}')]]);
+    });
+
+    it('downloads truncated files from raw_url', async () => {
+        createGistServer({ 'big.css': 'body{color:red}' }, { truncated: ['big.css'] });
+
+        await expect(client.downloadFile('big.css')).resolves.toBe('body{color:red}');
+    });
+
+    it('writes all changes as a single revision', async () => {
+        const { revisions } = createGistServer({ 'a.css': 'a{}', 'old.css': 'o{}' });
+
+        const version = await client.commitChanges([
+            { path: 'a.css', action: 'update', content: 'a{color:red}' },
+            { path: 'b.css', action: 'add', content: 'b{}' },
+            { path: 'old.css', action: 'delete' }
+        ]);
+
+        expect(version).toBe('rev-2');
+        expect(revisions).toHaveLength(2);
+        expect(revisions[0].files).toEqual({ 'a.css': 'a{color:red}', 'b.css': 'b{}' });
+    });
+
+    it('renames files within one revision', async () => {
+        const { revisions } = createGistServer({ 'old.css': 'o{}' });
+
+        await client.renameFile('old.css', 'new.css', 'o{}');
+
+        expect(revisions[0].files).toEqual({ 'new.css': 'o{}' });
+    });
+
+    it('lists only revisions that changed the file and reads their content', async () => {
+        createGistServer({ 'a.css': 'a{}' });
+        await client.uploadFile('b.css', 'b{}');
+        await client.uploadFile('a.css', 'a{color:red}');
+
+        const history = await client.getHistory('a.css');
+        const files = await client.listFiles('', true);
+
+        expect(history.map(revision => revision.id)).toEqual(['rev-3', 'rev-1']);
+        await expect(client.downloadRevision('a.css', 'rev-1')).resolves.toBe('a{}');
+        expect(files.map(file => [file.path, file.lastModified]).sort()).toEqual([
+            ['a.css', '2024-01-03T00:00:00Z'],
+            ['b.css', '2024-01-02T00:00:00Z']
+        ]);
+    });
+});
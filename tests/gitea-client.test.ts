@@ -0,0 +1,144 @@
+import { GiteaClient } from '../src/gitea-client';
+import { CacheManager } from '../src/utils/cache-manager';
+import { HashUtils } from '../src/utils/hash-utils';
+import { mockFetch, MockRequest } from './helpers/mock-server';
+
+const REPO = '/api/v1/repos/owner/snippets';
+
+function decodeContent(content: string): string {
+    return decodeURIComponent(escape(atob(content)));
+}
+
+/**
+ * 模拟 Gitea 仓库：批量修改接口按 sha 校验更新和删除，文件已被修改时返回 409
+ */
+function createGiteaServer(files: Record<string, string>) {
+    const state = new Map(Object.entries(files));
+    const hooks: { beforeCommit?: () => void } = {};
+
+    const requests = mockFetch((request: MockRequest) => {
+        const url = new URL(request.url);
+        const path = url.pathname;
+        if (path === REPO) {
+            return { body: { default_branch: 'main' } };
+        }
+        if (path === `${REPO}/git/trees/main`) {
+            if (state.size === 0) {
+                return { status: 404, body: { message: 'GetTree' } };
+            }
+            const tree = [...state.entries()].map(([filePath, content]) => ({
+                path: filePath,
+                sha: HashUtils.calculateGitBlobSha(content),
+                size: content.length,
+                type: 'blob'
+            }));
+            return { body: { tree, truncated: false } };
+        }
+        if (path.startsWith(`${REPO}/raw/`)) {
+            const content = state.get(decodeURIComponent(path.slice(`${REPO}/raw/`.length)));
+            return content === undefined ? undefined : { body: content };
+        }
+        if (path === `${REPO}/contents` && request.method === 'POST') {
+            hooks.beforeCommit?.();
+            const { files: operations } = JSON.parse(request.body || '{}');
+            for (const operation of operations) {
+                const current = state.get(operation.from_path || operation.path);
+                if (operation.operation === 'create' && state.has(operation.path)) {
+                    return { status: 422, body: { message: 'repository file already exists' } };
+                }
+                if (operation.operation !== 'create' && (current === undefined || HashUtils.calculateGitBlobSha(current) !== operation.sha)) {
+                    return { status: 409, body: { message: 'sha does not match' } };
+                }
+            }
+            for (const operation of operations) {
+                if (operation.operation === 'delete') {
+                    state.delete(operation.path);
+                    continue;
+                }
+                if (operation.from_path) {
+                    state.delete(operation.from_path);
+                }
+                state.set(operation.path, decodeContent(operation.content));
+            }
+            return { status: 201, body: { commit: { sha: 'commit-sha' } } };
+        }
+        return undefined;
+    });
+
+    return { state, requests, hooks };
+}
+
+describe('GiteaClient', () => {
+    let client: GiteaClient;
+
+    beforeEach(() => {
+        CacheManager.getInstance().clearAll();
+        client = new GiteaClient('https://gitea.example.com', 'gitea-token', 'owner/snippets');
+    });
+
+    it('lists .css files in subfolders with sizes and blob shas', async () => {
+        createGiteaServer({ 'a.css': 'a{}', 'themes/dark.css': 'body{}', 'notes.txt': 'x' });
+
+        const files = await client.listFiles();
+
+        expect(files.map(file => [file.path, file.name, file.size])).toEqual([
+            ['a.css', 'a.css', 3],
+            ['themes/dark.css', 'dark.css', 6]
+        ]);
+        expect(files[1].sha).toBe(client.computeVersion('body{}'));
+    });
+
+    it('returns an empty list for a repository without commits', async () => {
+        createGiteaServer({});
+
+        await expect(client.listFiles()).resolves.toEqual([]);
+    });
+
+    it('downloads raw content with the token header', async () => {
+        const { requests } = createGiteaServer({ 'themes/dark.css': 'body{}' });
+
+        await expect(client.downloadFile('themes/dark.css')).resolves.toBe('body{}');
+        const raw = requests.find(request => request.url.includes('/raw/'))!;
+        expect(raw.url).toContain('/raw/themes/dark.css?ref=main');
+        expect(raw.headers['authorization']).toBe('token gitea-token');
+    });
+
+    it('sends create, update and delete operations with current shas in one commit', async () => {
+        const { state, requests } = createGiteaServer({ 'a.css': 'a{}', 'b.css': 'b{}' });
+
+        await expect(client.commitChanges([
+            { path: 'a.css', action: 'update', content: 'a{color:red}' },
+            { path: 'b.css', action: 'delete' },
+            { path: 'c.css', action: 'add', content: 'c{}' }
+        ])).resolves.toBe('commit-sha');
+
+        const commit = JSON.parse(requests.find(request => request.method === 'POST')!.body!);
+        expect(commit.files.map((file: any) => file.operation)).toEqual(['update', 'delete', 'create']);
+        expect(commit.files[0].sha).toBe(HashUtils.calculateGitBlobSha('a{}'));
+        expect(Object.fromEntries(state)).toEqual({ 'a.css': 'a{color:red}', 'c.css': 'c{}' });
+    });
+
+    it('uploads and deletes single files', async () => {
+        const { state } = createGiteaServer({ 'old.css': 'o{}' });
+
+        await client.uploadFile('new.css', '.x{content:"✓"}');
+        await client.deleteFile('old.css');
+
+        expect(Object.fromEntries(state)).toEqual({ 'new.css': '.x{content:"✓"}' });
+    });
+
+    it('fails when the file changed on the server after it was listed', async () => {
+        const { state, hooks } = createGiteaServer({ 'a.css': 'a{}' });
+        hooks.beforeCommit = () => state.set('a.css', 'a{changed:elsewhere}');
+
+        await expect(client.uploadFile('a.css', 'a{mine}')).rejects.toThrow('sha does not match');
+        expect(state.get('a.css')).toBe('a{changed:elsewhere}');
+    });
+
+    it('refuses to delete a file that does not exist', async () => {
+        const { requests } = createGiteaServer({ 'a.css': 'a{}' });
+
+        await expect(client.deleteFile('missing.css')).rejects.toThrow('File not found: missing.css');
+        expect(requests.some(request => request.method === 'POST')).toBe(false);
+    });
+});
@@ -0,0 +1,204 @@
+import { GitHubClient } from '../src/github-client';
+import { CacheManager } from '../src/utils/cache-manager';
+import { mockFetch, MockRequest } from './helpers/mock-server';
+
+const FINE_GRAINED_TOKEN = `github_pat_${'a'.repeat(22)}_${'b'.repeat(59)}`;
+const CLASSIC_TOKEN = `ghp_${'c'.repeat(36)}`;
+
+/**
+ * 模拟 GitHub API：/user 返回账号和 Token 的 scope，/repos 返回账号对仓库的权限
+ */
+function createGitHubServer(options: { scopes?: string, push: boolean }) {
+    return mockFetch((request: MockRequest) => {
+        const path = new URL(request.url).pathname;
+        if (path === '/user') {
+            const headers: Record<string, string> = options.scopes !== undefined ? { 'x-oauth-scopes': options.scopes } : {};
+            return { body: { login: 'octocat' }, headers };
+        }
+        if (path === '/repos/owner/snippets' && request.method === 'GET') {
+            return { body: { private: true, permissions: { pull: true, push: options.push } } };
+        }
+        return undefined;
+    });
+}
+
+describe('GitHubClient.inspectTokenPermissions', () => {
+    beforeEach(() => {
+        CacheManager.getInstance().clearAll();
+    });
+
+    it('checks fine-grained tokens with read-only requests', async () => {
+        const requests = createGitHubServer({ push: true });
+        const client = new GitHubClient(FINE_GRAINED_TOKEN, 'owner/snippets');
+
+        const report = await client.inspectTokenPermissions();
+
+        expect(report).toMatchObject({ tokenType: 'fine-grained', login: 'octocat', scopes: null, missing: [] });
+        expect(requests.map(request => request.method)).toEqual(['GET', 'GET']);
+    });
+
+    it('reports missing write access for fine-grained tokens from the repository permissions', async () => {
+        const requests = createGitHubServer({ push: false });
+        const client = new GitHubClient(FINE_GRAINED_TOKEN, 'owner/snippets');
+
+        const report = await client.inspectTokenPermissions();
+
+        expect(report.missing).toEqual([expect.stringContaining('Contents: Read and write')]);
+        expect(requests.every(request => request.method === 'GET')).toBe(true);
+    });
+
+    it('reports a missing repo scope for classic tokens', async () => {
+        createGitHubServer({ scopes: 'gist, read:user', push: true });
+        const client = new GitHubClient(CLASSIC_TOKEN, 'owner/snippets');
+
+        const report = await client.inspectTokenPermissions();
+
+        expect(report).toMatchObject({ tokenType: 'classic', scopes: ['gist', 'read:user'] });
+        expect(report.missing).toEqual(['repo（读写私有仓库）']);
+    });
+});
+
+/**
+ * 模拟还没有任何提交的 GitHub 仓库：创建第一个提交之前 Git Data API 返回 409
+ */
+function createEmptyRepositoryServer() {
+    const files = new Map<string, string>();
+    let head: string | null = null;
+    let commits = 0;
+
+    const requests = mockFetch((request: MockRequest) => {
+        const path = new URL(request.url).pathname.replace('/repos/owner/snippets', '');
+        const body = request.body ? JSON.parse(request.body) : {};
+
+        if (path === '' && request.method === 'GET') {
+            return { body: { default_branch: 'main' } };
+        }
+        if (path === '/git/ref/heads/main') {
+            return head ? { body: { object: { sha: head } } } : { status: 409, body: { message: 'Git Repository is empty.' } };
+        }
+        if (path.startsWith('/contents/') && request.method === 'PUT') {
+            files.set(path.slice('/contents/'.length), atob(body.content));
+            head = `commit-${++commits}`;
+            return { status: 201, body: { commit: { sha: head } } };
+        }
+        if (!head) {
+            return { status: 409, body: { message: 'Git Repository is empty.' } };
+        }
+        if (path === `/git/commits/${head}`) {
+            return { body: { tree: { sha: `tree-${head}` } } };
+        }
+        if (path === '/git/blobs') {
+            return { status: 201, body: { sha: `blob:${atob(body.content)}` } };
+        }
+        if (path === '/git/trees') {
+            for (const item of body.tree) {
+                files.set(item.path, item.sha.slice('blob:'.length));
+            }
+            return { status: 201, body: { sha: 'tree-new' } };
+        }
+        if (path === '/git/commits' && request.method === 'POST') {
+            return { status: 201, body: { sha: `commit-${++commits}` } };
+        }
+        if (path === '/git/refs/heads/main' && request.method === 'PATCH') {
+            head = body.sha;
+            return { body: { object: { sha: head } } };
+        }
+        return undefined;
+    });
+
+    return { files, requests };
+}
+
+describe('GitHubClient.commitChanges', () => {
+    beforeEach(() => {
+        CacheManager.getInstance().clearAll();
+    });
+
+    it('creates the first commit in an empty repository', async () => {
+        const { files, requests } = createEmptyRepositoryServer();
+        const client = new GitHubClient(CLASSIC_TOKEN, 'owner/snippets');
+
+        const sha = await client.commitChanges([
+            { path: 'a.css', action: 'add', content: 'a{}' },
+            { path: 'themes/b.css', action: 'add', content: 'b{}' }
+        ]);
+
+        expect(sha).toBe('commit-2');
+        expect(Object.fromEntries(files)).toEqual({ 'a.css': 'a{}', 'themes/b.css': 'b{}' });
+        expect(JSON.parse(requests.find(request => request.method === 'PUT')!.body!)).toMatchObject({ branch: 'main' });
+    });
+
+    it('commits a single file to an empty repository with the contents API only', async () => {
+        const { files, requests } = createEmptyRepositoryServer();
+        const client = new GitHubClient(CLASSIC_TOKEN, 'owner/snippets');
+
+        await expect(client.commitChanges([{ path: 'a.css', action: 'add', content: 'a{}' }])).resolves.toBe('commit-1');
+        expect(Object.fromEntries(files)).toEqual({ 'a.css': 'a{}' });
+        expect(requests.some(request => request.url.includes('/git/blobs'))).toBe(false);
+    });
+});
+
+/**
+ * 模拟有 main 分支的 GitHub 仓库，记录已创建的分支
+ */
+function createBranchServer() {
+    const branches = new Map<string, string>([['main', 'commit-main']]);
+
+    const requests = mockFetch((request: MockRequest) => {
+        const path = new URL(request.url).pathname.replace('/repos/owner/snippets', '');
+
+        if (path === '' && request.method === 'GET') {
+            return { body: { default_branch: 'main' } };
+        }
+        if (path.startsWith('/git/ref/heads/')) {
+            const sha = branches.get(path.slice('/git/ref/heads/'.length));
+            return sha ? { body: { object: { sha } } } : undefined;
+        }
+        if (path === '/git/refs' && request.method === 'POST') {
+            const body = JSON.parse(request.body!);
+            branches.set(body.ref.slice('refs/heads/'.length), body.sha);
+            return { status: 201, body: { ref: body.ref } };
+        }
+        if (path.startsWith('/git/trees/')) {
+            return { body: { sha: 'tree-1', truncated: false, tree: [{ type: 'blob', path: 'a.css', sha: 'blob-a', size: 3 }] } };
+        }
+        return undefined;
+    });
+
+    return { branches, requests };
+}
+
+describe('GitHubClient branches', () => {
+    beforeEach(() => {
+        CacheManager.getInstance().clearAll();
+    });
+
+    it('keeps the slash in branch names when building ref and tree paths', async () => {
+        const { branches, requests } = createBranchServer();
+        const client = new GitHubClient(CLASSIC_TOKEN, 'owner/snippets');
+        client.setBranchOptions({ branch: 'device/laptop', createIfMissing: true, baseBranch: '' });
+
+        const files = await client.listFiles();
+
+        expect(files.map(file => file.path)).toEqual(['a.css']);
+        expect(branches.get('device/laptop')).toBe('commit-main');
+        const paths = requests.map(request => new URL(request.url).pathname);
+        expect(paths).toContain('/repos/owner/snippets/git/ref/heads/device/laptop');
+        expect(paths).toContain('/repos/owner/snippets/git/trees/device/laptop');
+        expect(paths.some(path => path.includes('%2F'))).toBe(false);
+    });
+
+    it('reads the default branch once until the repository changes', async () => {
+        const { requests } = createBranchServer();
+        const client = new GitHubClient(CLASSIC_TOKEN, 'owner/snippets');
+        const repositoryReads = () => requests.filter(request => new URL(request.url).pathname === '/repos/owner/snippets').length;
+
+        await client.listFiles();
+        await client.listFiles();
+        expect(repositoryReads()).toBe(1);
+
+        client.updateCredentials(CLASSIC_TOKEN, 'owner/snippets');
+        await client.listFiles();
+        expect(repositoryReads()).toBe(2);
+    });
+});
@@ -0,0 +1,95 @@
+import { DeviceCode, GitHubDeviceAuth } from '../src/github-device-auth';
+import { HttpRequest, HttpResponse } from '../src/utils/http-transport';
+
+/**
+ * 模拟 GitHub 登录服务器：每次轮询按顺序返回 replies 中的下一个响应
+ * sleep 不真正等待，只推进模拟时钟并记录等待时间
+ */
+function createDeviceFlow(replies: Record<string, unknown>[]) {
+    let now = 1_000_000;
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+
+    const requests: HttpRequest[] = [];
+    const waits: number[] = [];
+    const transport = async (request: HttpRequest): Promise<HttpResponse> => {
+        requests.push(request);
+        const body = request.url.endsWith('/login/device/code')
+            ? { device_code: 'device-123', user_code: 'ABCD-1234', verification_uri: 'https://github.com/login/device', expires_in: 900, interval: 5 }
+            : replies.shift() || { error: 'authorization_pending' };
+        return { status: 200, headers: {}, text: JSON.stringify(body) };
+    };
+    const sleep = async (ms: number) => {
+        waits.push(ms);
+        now += ms;
+    };
+
+    return { auth: new GitHubDeviceAuth('https://github.com/', 'client-1', transport, sleep), requests, waits };
+}
+
+const code: DeviceCode = {
+    deviceCode: 'device-123',
+    userCode: 'ABCD-1234',
+    verificationUri: 'https://github.com/login/device',
+    expiresAt: 1_000_000 + 900 * 1000,
+    interval: 5
+};
+
+describe('GitHubDeviceAuth', () => {
+    it('requests a device code for the configured client and scopes', async () => {
+        const { auth, requests } = createDeviceFlow([]);
+
+        await expect(auth.requestDeviceCode()).resolves.toEqual(code);
+        expect(requests[0].url).toBe('https://github.com/login/device/code');
+        expect(new URLSearchParams(requests[0].body)).toEqual(new URLSearchParams({ client_id: 'client-1', scope: 'repo gist' }));
+    });
+
+    it('keeps polling while authorization is pending and returns the token', async () => {
+        const { auth, requests, waits } = createDeviceFlow([
+            { error: 'authorization_pending' },
+            { error: 'authorization_pending' },
+            { access_token: 'gho_token' }
+        ]);
+
+        await expect(auth.pollForToken(code)).resolves.toBe('gho_token');
+        expect(waits).toEqual([5000, 5000, 5000]);
+        expect(new URLSearchParams(requests[0].body).get('device_code')).toBe('device-123');
+    });
+
+    it('slows down to the interval returned by the server', async () => {
+        const { auth, waits } = createDeviceFlow([
+            { error: 'slow_down', interval: 10 },
+            { error: 'slow_down' },
+            { access_token: 'gho_token' }
+        ]);
+
+        await expect(auth.pollForToken(code)).resolves.toBe('gho_token');
+        // 没有返回新间隔时增加 5 秒
+        expect(waits).toEqual([5000, 10000, 15000]);
+    });
+
+    it('stops when the device code expired', async () => {
+        const { auth } = createDeviceFlow([{ error: 'authorization_pending' }, { error: 'expired_token' }]);
+
+        await expect(auth.pollForToken(code)).rejects.toThrow('验证码已过期，请重新登录');
+    });
+
+    it('stops when the code expires locally before the user authorizes', async () => {
+        const { auth, requests } = createDeviceFlow([]);
+
+        await expect(auth.pollForToken({ ...code, expiresAt: 1_000_000 + 12_000 })).rejects.toThrow('验证码已过期，请重新登录');
+        expect(requests).toHaveLength(3);
+    });
+
+    it('stops when the user denied access in the browser', async () => {
+        const { auth } = createDeviceFlow([{ error: 'access_denied' }]);
+
+        await expect(auth.pollForToken(code)).rejects.toThrow('已在浏览器中拒绝授权');
+    });
+
+    it('stops polling when cancelled', async () => {
+        const { auth, requests } = createDeviceFlow([]);
+
+        await expect(auth.pollForToken(code, () => true)).rejects.toThrow('已取消登录');
+        expect(requests).toHaveLength(0);
+    });
+});
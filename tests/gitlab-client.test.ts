@@ -0,0 +1,126 @@
+import { GitLabClient } from '../src/gitlab-client';
+import { CacheManager } from '../src/utils/cache-manager';
+import { HashUtils } from '../src/utils/hash-utils';
+import { mockFetch, MockRequest } from './helpers/mock-server';
+
+const PROJECT = '/api/v4/projects/group%2Fsnippets';
+
+/**
+ * 模拟 GitLab 项目：文件保存在内存中，commits API 按 GitLab 的规则校验 create/update/delete
+ */
+function createGitLabServer(files: Record<string, string>) {
+    const state = new Map(Object.entries(files));
+    let commitCount = 0;
+
+    const requests = mockFetch((request: MockRequest) => {
+        const url = new URL(request.url);
+        const path = url.pathname;
+        if (path === `${PROJECT}` && request.method === 'GET') {
+            return { body: { default_branch: 'main' } };
+        }
+        if (path === `${PROJECT}/repository/tree`) {
+            const tree = [...state.entries()].map(([filePath, content]) => ({
+                id: HashUtils.calculateGitBlobSha(content),
+                name: filePath.split('/').pop(),
+                path: filePath,
+                type: 'blob'
+            }));
+            return { body: tree, headers: { 'X-Next-Page': '' } };
+        }
+        const rawMatch = path.match(/\/repository\/files\/(.+)\/raw$/);
+        if (rawMatch) {
+            const content = state.get(decodeURIComponent(rawMatch[1]));
+            return content === undefined ? undefined : { body: content };
+        }
+        if (path === `${PROJECT}/repository/commits` && request.method === 'POST') {
+            const { actions } = JSON.parse(request.body || '{}');
+            for (const action of actions) {
+                const exists = state.has(action.file_path);
+                if (action.action === 'create' && exists) {
+                    return { status: 400, body: { message: 'A file with this name already exists' } };
+                }
+                if ((action.action === 'update' || action.action === 'delete') && !exists) {
+                    return { status: 400, body: { message: "A file with this name doesn't exist" } };
+                }
+            }
+            for (const action of actions) {
+                if (action.action === 'delete') {
+                    state.delete(action.file_path);
+                } else if (action.action === 'move') {
+                    state.delete(action.previous_path);
+                    state.set(action.file_path, action.content);
+                } else {
+                    state.set(action.file_path, action.content);
+                }
+            }
+            commitCount++;
+            return { status: 201, body: { id: `commit-${commitCount}` } };
+        }
+        return undefined;
+    });
+
+    return { state, requests };
+}
+
+describe('GitLabClient', () => {
+    let client: GitLabClient;
+
+    beforeEach(() => {
+        CacheManager.getInstance().clearAll();
+        client = new GitLabClient('https://gitlab.example.com/', 'glpat-token', 'group/snippets');
+    });
+
+    it('lists .css files with blob ids as versions', async () => {
+        createGitLabServer({ 'a.css': 'a{}', 'themes/b.css': 'b{}', 'README.md': '#' });
+
+        const files = await client.listFiles();
+
+        expect(files.map(file => file.path).sort()).toEqual(['a.css', 'themes/b.css']);
+        const themed = files.find(file => file.path === 'themes/b.css')!;
+        expect(themed.name).toBe('b.css');
+        expect(themed.sha).toBe(client.computeVersion('b{}'));
+    });
+
+    it('downloads raw content from the default branch', async () => {
+        const { requests } = createGitLabServer({ 'themes/b.css': 'b{}' });
+
+        await expect(client.downloadFile('themes/b.css')).resolves.toBe('b{}');
+        const raw = requests.find(request => request.url.includes('/raw'))!;
+        expect(raw.url).toContain('themes%2Fb.css/raw?ref=main');
+        expect(raw.headers['private-token']).toBe('glpat-token');
+    });
+
+    it('creates new files and updates existing ones in a single commit', async () => {
+        const { state, requests } = createGitLabServer({ 'a.css': 'a{}' });
+
+        await client.commitChanges([
+            { path: 'a.css', action: 'update', content: 'a{color:red}' },
+            { path: 'new.css', action: 'add', content: 'n{}' }
+        ]);
+
+        const commit = requests.find(request => request.method === 'POST')!;
+        expect(JSON.parse(commit.body!).actions.map((action: any) => action.action)).toEqual(['update', 'create']);
+        expect(state.get('a.css')).toBe('a{color:red}');
+        expect(state.get('new.css')).toBe('n{}');
+    });
+
+    it('uploads and deletes single files', async () => {
+        const { state } = createGitLabServer({ 'old.css': 'o{}' });
+
+        await expect(client.uploadFile('up.css', 'u{}')).resolves.toBe(true);
+        await expect(client.deleteFile('old.css')).resolves.toBe(true);
+
+        expect([...state.keys()]).toEqual(['up.css']);
+    });
+
+    it('fails the whole commit when the server rejects a conflicting change', async () => {
+        const { state } = createGitLabServer({ 'a.css': 'a{}' });
+
+        await expect(client.commitChanges([
+            { path: 'b.css', action: 'add', content: 'b{}' },
+            { path: 'missing.css', action: 'delete' }
+        ])).rejects.toThrow("doesn't exist");
+
+        expect([...state.keys()]).toEqual(['a.css']);
+    });
+});
@@ -0,0 +1,18 @@
+import { HashUtils } from '../src/utils/hash-utils';
+
+describe('HashUtils.calculateGitBlobSha', () => {
+    // 期望值由 git hash-object 计算
+    it('matches git for empty, ASCII and multi-byte content', () => {
+        expect(HashUtils.calculateGitBlobSha('')).toBe('e69de29bb2d1d6434b8b29ae775ad8c2e48c5391');
+        expect(HashUtils.calculateGitBlobSha('a{}')).toBe('8f0ede12302e72f971c2f86cc20bdf5ae4300e4b');
+        expect(HashUtils.calculateGitBlobSha('中文')).toBe('efbb13322ba66f682e179ebff5eeb1bd6ef83972');
+    });
+
+    it('matches git for content spanning several SHA-1 blocks', () => {
+        expect(HashUtils.calculateGitBlobSha('x'.repeat(100))).toBe('f6be7cae2045aac11912ea642bf7f9d5d261f63b');
+    });
+
+    it('does not normalize line endings', () => {
+        expect(HashUtils.calculateGitBlobSha('a{}\r\n')).toBe('b47cd70c220705092d4a3b672ec817d3fc074d63');
+    });
+});
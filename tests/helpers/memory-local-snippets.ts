@@ -0,0 +1,51 @@
+import { LocalSnippet, LocalSnippetsManager } from '../../src/local-snippets-manager';
+import { HashUtils } from '../../src/utils/hash-utils';
+
+/**
+ * 用内存代替库中的 snippets 文件夹，只实现同步逻辑用到的方法
+ */
+export class MemoryLocalSnippets {
+    readonly files: Map<string, string>;
+
+    constructor(initialFiles: Record<string, string> = {}) {
+        this.files = new Map(Object.entries(initialFiles));
+    }
+
+    async getSnippetsList(): Promise<LocalSnippet[]> {
+        return [...this.files].map(([name, content]) => ({
+            name,
+            path: `.obsidian/snippets/${name}`,
+            content,
+            enabled: true,
+            lastModified: 0,
+            hash: HashUtils.calculateHash(content)
+        }));
+    }
+
+    async readSnippet(name: string): Promise<string> {
+        const content = this.files.get(name);
+        if (content === undefined) {
+            throw new Error(`Snippet not found: ${name}`);
+        }
+        return content;
+    }
+
+    async writeSnippet(name: string, content: string): Promise<boolean> {
+        this.files.set(name, content);
+        return true;
+    }
+
+    async deleteSnippet(name: string): Promise<boolean> {
+        return this.files.delete(name);
+    }
+
+    async renameSnippet(from: string, to: string): Promise<boolean> {
+        this.files.set(to, await this.readSnippet(from));
+        this.files.delete(from);
+        return true;
+    }
+
+    asManager(): LocalSnippetsManager {
+        return this as unknown as LocalSnippetsManager;
+    }
+}
@@ -0,0 +1,97 @@
+import { requestUrl } from 'obsidian';
+
+/*
+ * 模拟服务器不监听端口，而是直接替换客户端使用的传输函数（全局 fetch 或 requestUrl）
+ * 因此测试覆盖的是客户端的请求构造和响应处理，不包括真实网络层的行为（连接错误、CORS、重定向、压缩等）
+ * 替换的 fetch 和 requestUrl 在 tests/setup.ts 中于每个测试结束后恢复
+ */
+
+/**
+ * 模拟服务器收到的请求
+ */
+export interface MockRequest {
+    method: string;
+    url: string;
+    headers: Record<string, string>;
+    body?: string;
+}
+
+/**
+ * 模拟服务器的响应，body 不是字符串时按 JSON 返回
+ */
+export interface MockReply {
+    status?: number;
+    body?: unknown;
+    headers?: Record<string, string>;
+}
+
+export type MockHandler = (request: MockRequest) => MockReply | undefined;
+
+const NOT_FOUND: MockReply = { status: 404, body: { message: 'Not Found' } };
+
+function serialize(reply: MockReply): string {
+    if (reply.body === undefined) {
+        return '';
+    }
+    return typeof reply.body === 'string' ? reply.body : JSON.stringify(reply.body);
+}
+
+/**
+ * 请求头名称统一为小写，方便断言
+ */
+function normalizeHeaders(headers: unknown): Record<string, string> {
+    const result: Record<string, string> = {};
+    new Headers(headers as HeadersInit).forEach((value, name) => {
+        result[name] = value;
+    });
+    return result;
+}
+
+/**
+ * 用 handler 代替全局 fetch（GitHub、GitLab、Gitea 客户端使用），返回收到的请求列表
+ * handler 没有返回响应时回复 404；测试结束后 fetch 自动恢复
+ */
+export function mockFetch(handler: MockHandler): MockRequest[] {
+    const requests: MockRequest[] = [];
+    global.fetch = jest.fn(async (input: RequestInfo | URL, init: RequestInit = {}) => {
+        const request: MockRequest = {
+            method: (init.method || 'GET').toUpperCase(),
+            url: String(input),
+            headers: normalizeHeaders(init.headers),
+            body: typeof init.body === 'string' ? init.body : undefined
+        };
+        requests.push(request);
+
+        const reply = handler(request) || NOT_FOUND;
+        const status = reply.status || 200;
+        // 204 和 304 不能带响应体
+        const body = status === 204 || status === 304 ? null : serialize(reply);
+        return new Response(body, { status, headers: reply.headers });
+    }) as typeof fetch;
+    return requests;
+}
+
+/**
+ * 用 handler 代替 Obsidian 的 requestUrl（WebDAV、S3 和 GitHub 登录使用），返回收到的请求列表
+ * 测试结束后 requestUrl 自动恢复
+ */
+export function mockRequestUrl(handler: MockHandler): MockRequest[] {
+    const requests: MockRequest[] = [];
+    (requestUrl as jest.Mock).mockImplementation(async (params: { url: string, method?: string, headers?: Record<string, string>, body?: string }) => {
+        const request: MockRequest = {
+            method: (params.method || 'GET').toUpperCase(),
+            url: params.url,
+            headers: normalizeHeaders(params.headers || {}),
+            body: params.body
+        };
+        requests.push(request);
+
+        const reply = handler(request) || NOT_FOUND;
+        return {
+            status: reply.status || 200,
+            headers: reply.headers || {},
+            text: serialize(reply)
+        };
+    });
+    return requests;
+}
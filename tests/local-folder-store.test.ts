@@ -0,0 +1,84 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Platform } from 'obsidian';
+import { LocalFolderStore } from '../src/local-folder-store';
+
+/**
+ * 桌面端 Obsidian 通过 window.require 提供 Node.js 模块，测试中直接使用真实文件系统
+ */
+const globalWithWindow = global as unknown as { window?: unknown };
+
+describe('LocalFolderStore', () => {
+    let root: string;
+    let store: LocalFolderStore;
+
+    const read = (relativePath: string) => fs.readFileSync(path.join(root, relativePath), 'utf8');
+    const write = (relativePath: string, content: string) => {
+        fs.mkdirSync(path.dirname(path.join(root, relativePath)), { recursive: true });
+        fs.writeFileSync(path.join(root, relativePath), content);
+    };
+
+    beforeEach(() => {
+        globalWithWindow.window = { require: (id: string) => (id === 'fs' ? fs : path) };
+        root = fs.mkdtempSync(path.join(os.tmpdir(), 'snippets-'));
+        store = new LocalFolderStore(root);
+    });
+
+    afterEach(() => {
+        fs.rmSync(root, { recursive: true, force: true });
+        delete globalWithWindow.window;
+        Platform.isDesktopApp = true;
+    });
+
+    it('lists .css files in subfolders and skips hidden folders', async () => {
+        write('a.css', 'a{}');
+        write('themes/dark.css', 'body{}');
+        write('notes.txt', 'x');
+        write('.git/config.css', 'x{}');
+
+        const files = await store.listFiles();
+
+        expect(files.map(file => [file.path, file.name, file.content]).sort()).toEqual([
+            ['a.css', 'a.css', 'a{}'],
+            ['themes/dark.css', 'dark.css', 'body{}']
+        ]);
+        expect(files.find(file => file.path === 'a.css')!.sha).toBe(store.computeVersion('a{}'));
+    });
+
+    it('writes, renames and deletes files without leaving temporary files', async () => {
+        write('old.css', 'o{}');
+        write('gone.css', 'g{}');
+
+        await store.uploadFile('themes/new.css', 'n{}');
+        await store.renameFile('old.css', 'renamed.css', 'o{}');
+        await store.deleteFile('gone.css');
+
+        expect(read('themes/new.css')).toBe('n{}');
+        expect(read('renamed.css')).toBe('o{}');
+        expect(fs.readdirSync(root).sort()).toEqual(['renamed.css', 'themes']);
+    });
+
+    it('keeps the folder unchanged when a change in the commit fails', async () => {
+        write('a.css', 'a{}');
+
+        await expect(store.commitChanges([
+            { path: 'a.css', action: 'update', content: 'a{mine}' },
+            { path: 'missing.css', action: 'delete' }
+        ])).rejects.toThrow('File not found: missing.css');
+
+        expect(read('a.css')).toBe('a{}');
+        expect(fs.readdirSync(root)).toEqual(['a.css']);
+    });
+
+    it('rejects paths outside the folder', async () => {
+        await expect(store.uploadFile('../outside.css', 'x{}')).rejects.toThrow('路径超出同步文件夹范围');
+    });
+
+    it('refuses to run outside the desktop app', async () => {
+        Platform.isDesktopApp = false;
+
+        await expect(store.authenticate()).resolves.toBe(false);
+        await expect(store.listFiles()).rejects.toThrow('本地文件夹存储只能在桌面端使用');
+    });
+});
@@ -0,0 +1,100 @@
+import { RequestScheduler } from '../src/utils/request-scheduler';
+
+/**
+ * 按顺序返回 replies 中的响应，记录调用次数
+ */
+function createTask(replies: { status: number, body?: unknown, headers?: Record<string, string> }[]) {
+    const calls: number[] = [];
+    const task = async () => {
+        calls.push(calls.length);
+        const reply = replies.shift() || { status: 200 };
+        return new Response(reply.body === undefined ? null : JSON.stringify(reply.body), { status: reply.status, headers: reply.headers });
+    };
+    return { task, calls };
+}
+
+describe('RequestScheduler', () => {
+    let scheduler: RequestScheduler;
+
+    beforeEach(() => {
+        scheduler = new RequestScheduler({ baseDelayMs: 1, maxDelayMs: 50 });
+    });
+
+    it('retries GET requests after server errors', async () => {
+        const { task, calls } = createTask([{ status: 502 }, { status: 500 }, { status: 200 }]);
+
+        const response = await scheduler.execute(task, 'GET');
+
+        expect(response.status).toBe(200);
+        expect(calls).toHaveLength(3);
+    });
+
+    it('does not resend POST requests after server errors', async () => {
+        const { task, calls } = createTask([{ status: 500 }, { status: 200 }]);
+
+        const response = await scheduler.execute(task, 'POST');
+
+        expect(response.status).toBe(500);
+        expect(calls).toHaveLength(1);
+    });
+
+    it('retries any method when the server asks to retry later', async () => {
+        const { task, calls } = createTask([{ status: 429, headers: { 'Retry-After': '0' } }, { status: 201 }]);
+
+        const response = await scheduler.execute(task, 'PATCH');
+
+        expect(response.status).toBe(201);
+        expect(calls).toHaveLength(2);
+    });
+
+    it('retries secondary rate limits and gives up after the retry limit', async () => {
+        const limited = { status: 403, body: { message: 'You have exceeded a secondary rate limit' } };
+        const { task, calls } = createTask([limited, limited, limited, limited, limited]);
+
+        const response = await scheduler.execute(task);
+
+        expect(response.status).toBe(403);
+        expect(calls).toHaveLength(4);
+    });
+
+    it('does not wait when the quota resets later than the maximum delay', async () => {
+        const reset = String(Math.floor(Date.now() / 1000) + 3600);
+        const { task, calls } = createTask([{ status: 403, headers: { 'X-RateLimit-Remaining': '0', 'X-RateLimit-Reset': reset } }]);
+
+        const response = await scheduler.execute(task);
+
+        expect(response.status).toBe(403);
+        expect(calls).toHaveLength(1);
+        expect(scheduler.isRateLimited()).toBe(true);
+    });
+
+    it('reads GitHub and GitLab rate limit headers and notifies listeners', async () => {
+        const listener = jest.fn();
+        const unsubscribe = scheduler.onRateLimitChange(listener);
+
+        await scheduler.execute(createTask([{ status: 200, headers: { 'X-RateLimit-Limit': '5000', 'X-RateLimit-Remaining': '4999', 'X-RateLimit-Reset': '1700000000' } }]).task);
+        unsubscribe();
+        await scheduler.execute(createTask([{ status: 200, headers: { 'RateLimit-Limit': '2000', 'RateLimit-Remaining': '10', 'RateLimit-Reset': '1700000100' } }]).task);
+
+        expect(listener).toHaveBeenCalledTimes(1);
+        expect(listener.mock.calls[0][0]).toMatchObject({ limit: 5000, remaining: 4999, reset: 1700000000 * 1000 });
+        expect(scheduler.getRateLimit()).toMatchObject({ limit: 2000, remaining: 10 });
+    });
+
+    it('runs at most maxConcurrent requests at the same time', async () => {
+        const limited = new RequestScheduler({ maxConcurrent: 2 });
+        let running = 0;
+        let maxRunning = 0;
+        const task = async () => {
+            running++;
+            maxRunning = Math.max(maxRunning, running);
+            await new Promise(resolve => setTimeout(resolve, 5));
+            running--;
+            return new Response(null, { status: 204 });
+        };
+
+        await Promise.all([1, 2, 3, 4, 5].map(() => limited.execute(task)));
+
+        expect(maxRunning).toBe(2);
+    });
+});
@@ -0,0 +1,144 @@
+import { S3Client } from '../src/s3-client';
+import { CacheManager } from '../src/utils/cache-manager';
+import { mockRequestUrl, MockRequest } from './helpers/mock-server';
+
+const BUCKET = '/snippets-bucket';
+
+interface StoredObject {
+    content: string;
+    version: number;
+    lastModified?: string;
+}
+
+/**
+ * 模拟 S3 存储桶：ListObjectsV2 按 pageSize 分页返回，写入失败的对象由 failingKeys 指定
+ */
+function createS3Server(objects: Record<string, string | StoredObject>, options: { pageSize?: number } = {}) {
+    const state = new Map<string, StoredObject>(Object.entries(objects).map(([key, object]) => [
+        key,
+        typeof object === 'string' ? { content: object, version: 1, lastModified: '2024-01-01T00:00:00.000Z' } : object
+    ]));
+    const failingKeys = new Set<string>();
+    const pageSize = options.pageSize || 1000;
+    const etagOf = (key: string) => `"${key}-${state.get(key)!.version}"`;
+
+    const requests = mockRequestUrl((request: MockRequest) => {
+        const url = new URL(request.url);
+        const key = decodeURIComponent(url.pathname.slice(BUCKET.length + 1));
+
+        if (!key && request.method === 'GET' && url.searchParams.get('list-type') === '2') {
+            const prefix = url.searchParams.get('prefix') || '';
+            const keys = [...state.keys()].filter(name => name.startsWith(prefix)).sort();
+            const start = Number(url.searchParams.get('continuation-token') || 0);
+            const page = keys.slice(start, start + pageSize);
+            const truncated = start + pageSize < keys.length;
+            const contents = page.map(name => {
+                const object = state.get(name)!;
+                return `<Contents><Key>${name}</Key><ETag>&quot;${name}-${object.version}&quot;</ETag>` +
+                    `<Size>${object.content.length}</Size>` +
+                    (object.lastModified !== undefined ? `<LastModified>${object.lastModified}</LastModified>` : '') +
+                    '</Contents>';
+            }).join('');
+            return {
+                body: `<ListBucketResult><IsTruncated>${truncated}</IsTruncated>${contents}` +
+                    (truncated ? `<NextContinuationToken>${start + pageSize}</NextContinuationToken>` : '') +
+                    '</ListBucketResult>'
+            };
+        }
+        if (request.method === 'GET') {
+            return state.has(key)
+                ? { body: state.get(key)!.content, headers: { etag: etagOf(key) } }
+                : { status: 404, body: '<Error><Code>NoSuchKey</Code></Error>' };
+        }
+        if (failingKeys.has(key)) {
+            return { status: 403, body: '<Error><Code>AccessDenied</Code></Error>' };
+        }
+        if (request.method === 'PUT') {
+            state.set(key, { content: request.body || '', version: (state.get(key)?.version || 0) + 1 });
+            return { headers: { etag: etagOf(key) } };
+        }
+        if (request.method === 'DELETE') {
+            state.delete(key);
+            return { status: 204 };
+        }
+        return undefined;
+    });
+
+    return { state, requests, failingKeys };
+}
+
+describe('S3Client', () => {
+    let client: S3Client;
+
+    beforeEach(() => {
+        CacheManager.getInstance().clearAll();
+        client = new S3Client('https://s3.example.com', 'us-east-1', 'snippets-bucket', 'css', 'AKIDEXAMPLE', 'secret');
+    });
+
+    it('lists .css objects under the prefix across paginated responses', async () => {
+        const { requests } = createS3Server({
+            'css/a.css': 'a{}',
+            'css/b.txt': 'x',
+            'css/themes/dark.css': 'body{}',
+            'other/c.css': 'c{}'
+        }, { pageSize: 2 });
+
+        const files = await client.listFiles('', true);
+
+        expect(files.map(file => [file.path, file.name, file.sha, file.size, file.lastModified])).toEqual([
+            ['a.css', 'a.css', 'css/a.css-1', 3, '2024-01-01T00:00:00.000Z'],
+            ['themes/dark.css', 'dark.css', 'css/themes/dark.css-1', 6, '2024-01-01T00:00:00.000Z']
+        ]);
+        expect(requests.filter(request => request.url.includes('list-type=2'))).toHaveLength(2);
+        expect(requests[0].headers['authorization']).toMatch(/^AWS4-HMAC-SHA256 Credential=AKIDEXAMPLE\//);
+    });
+
+    it('keeps listing objects whose modification time is missing or unparsable', async () => {
+        createS3Server({
+            'css/a.css': { content: 'a{}', version: 1, lastModified: 'yesterday' },
+            'css/b.css': { content: 'b{}', version: 1 }
+        });
+
+        const files = await client.listFiles('', true);
+
+        expect(files.map(file => [file.path, file.lastModified])).toEqual([['a.css', ''], ['b.css', '']]);
+    });
+
+    it('downloads objects and reuses the cache while the ETag is unchanged', async () => {
+        const { requests } = createS3Server({ 'css/themes/dark.css': 'body{}' });
+
+        await client.listFiles();
+        await expect(client.downloadFile('themes/dark.css')).resolves.toBe('body{}');
+        await expect(client.downloadFile('themes/dark.css')).resolves.toBe('body{}');
+
+        const gets = requests.filter(request => request.method === 'GET' && request.url.includes('/css/themes/dark.css'));
+        expect(gets).toHaveLength(1);
+    });
+
+    it('uploads and deletes objects under the prefix', async () => {
+        const { state } = createS3Server({ 'css/a.css': 'a{}', 'css/old.css': 'o{}' });
+
+        await client.listFiles();
+        await client.uploadFile('a.css', 'a{color:red}');
+        await client.uploadFile('themes/new.css', 'n{}');
+        await client.deleteFile('old.css');
+
+        expect([...state.keys()].sort()).toEqual(['css/a.css', 'css/themes/new.css']);
+        expect(state.get('css/a.css')!.content).toBe('a{color:red}');
+    });
+
+    it('rolls back earlier writes when a later change fails', async () => {
+        const { state, failingKeys } = createS3Server({ 'css/a.css': 'a{}', 'css/b.css': 'b{}' });
+        failingKeys.add('css/b.css');
+
+        await client.listFiles();
+        await expect(client.commitChanges([
+            { path: 'a.css', action: 'update', content: 'a{mine}' },
+            { path: 'c.css', action: 'add', content: 'c{}' },
+            { path: 'b.css', action: 'delete' }
+        ])).rejects.toThrow('b.css: 没有访问权限');
+
+        expect([...state.keys()].sort()).toEqual(['css/a.css', 'css/b.css']);
+        expect(state.get('css/a.css')!.content).toBe('a{}');
+    });
+});
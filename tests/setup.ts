@@ -0,0 +1,19 @@
+import { requestUrl } from 'obsidian';
+
+// 客户端会输出大量请求日志，测试中不显示
+beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+});
+
+// mockFetch 和 mockRequestUrl 会替换客户端的传输函数，每个测试结束后恢复，避免影响后面的测试
+const originalFetch = global.fetch;
+
+afterEach(() => {
+    jest.restoreAllMocks();
+    global.fetch = originalFetch;
+    (requestUrl as jest.Mock).mockImplementation(async () => {
+        throw new Error('requestUrl 未在测试中模拟');
+    });
+});
@@ -0,0 +1,115 @@
+import type { CSSSnippetsManagerSettings } from '../main';
+import { DescriptionManager } from '../src/description-manager';
+import { MemorySnippetStore } from '../src/memory-snippet-store';
+import { SyncManager, SyncPlan } from '../src/sync-manager';
+import { SyncStateManager } from '../src/sync-state-manager';
+import { MemoryLocalSnippets } from './helpers/memory-local-snippets';
+
+function actionsOf(plan: SyncPlan): [string, string][] {
+    return plan.actions.map(action => [action.type, action.filename]);
+}
+
+describe('SyncManager', () => {
+    let settings: CSSSnippetsManagerSettings;
+    let scope: string;
+    let syncState: SyncStateManager;
+    let local: MemoryLocalSnippets;
+
+    function createSyncManager(store: MemorySnippetStore): SyncManager {
+        const descriptions = { moveDescription: async () => undefined } as unknown as DescriptionManager;
+        return new SyncManager(store, local.asManager(), syncState, descriptions);
+    }
+
+    beforeEach(() => {
+        settings = { syncState: {}, syncTombstones: {}, syncStateScope: '', tombstoneExpiryDays: 30 } as unknown as CSSSnippetsManagerSettings;
+        scope = 'github|owner/snippets|main';
+        syncState = new SyncStateManager(settings, async () => undefined, () => scope);
+        local = new MemoryLocalSnippets({ 'local.css': 'l{}', 'shared.css': 's{}' });
+    });
+
+    it('uploads local-only files and downloads cloud-only files in a bidirectional sync', async () => {
+        const store = new MemorySnippetStore({ 'shared.css': 's{}', 'themes/cloud.css': 'c{}' });
+        const syncManager = createSyncManager(store);
+
+        const result = await syncManager.bidirectionalSync();
+
+        expect(result.success).toBe(true);
+        expect(Object.fromEntries(local.files)).toEqual({ 'local.css': 'l{}', 'shared.css': 's{}', 'cloud.css': 'c{}' });
+        await expect(store.downloadFile('local.css')).resolves.toBe('l{}');
+        expect(Object.keys(settings.syncState).sort()).toEqual(['cloud.css', 'local.css', 'shared.css']);
+    });
+
+    it('plans to delete local copies of files deleted from the same store', async () => {
+        const store = new MemorySnippetStore({ 'local.css': 'l{}', 'shared.css': 's{}' });
+        const syncManager = createSyncManager(store);
+        await syncManager.bidirectionalSync();
+        await store.deleteFile('shared.css');
+
+        const plan = await syncManager.buildSyncPlan('bidirectional');
+
+        expect(actionsOf(plan)).toEqual([['skip', 'local.css'], ['delete-local', 'shared.css']]);
+    });
+
+    it('forgets the previous store state after switching to another store', async () => {
+        const syncManager = createSyncManager(new MemorySnippetStore({ 'local.css': 'l{}', 'shared.css': 's{}' }));
+        await syncManager.bidirectionalSync();
+
+        // 切换到另一个空的仓库
+        scope = 'github|owner/other|main';
+        const emptyStore = new MemorySnippetStore();
+        syncManager.setRemoteStore(emptyStore);
+        const plan = await syncManager.buildSyncPlan('bidirectional');
+
+        expect(actionsOf(plan)).toEqual([['upload', 'local.css'], ['upload', 'shared.css']]);
+        expect(settings.syncStateScope).toBe('github|owner/other|main');
+    });
+
+    it('resolves conflicts against the file in its cloud folder', async () => {
+        const store = new MemorySnippetStore({ 'themes/shared.css': 's{}' });
+        const syncManager = createSyncManager(store);
+        await syncManager.bidirectionalSync();
+        local.files.set('shared.css', 's{color:red}');
+        await store.uploadFile('themes/shared.css', 's{color:blue}');
+
+        await expect(syncManager.getConflictVersions('shared.css')).resolves.toEqual({
+            base: 's{}',
+            local: 's{color:red}',
+            cloud: 's{color:blue}'
+        });
+        await expect(syncManager.resolveConflict('shared.css', 'local')).resolves.toBe(true);
+        await expect(store.downloadFile('themes/shared.css')).resolves.toBe('s{color:red}');
+        expect((await store.listFiles()).map(file => file.path).sort()).toEqual(['local.css', 'themes/shared.css']);
+
+        await store.uploadFile('themes/shared.css', 's{color:green}');
+        await expect(syncManager.resolveConflict('shared.css', 'cloud')).resolves.toBe(true);
+        expect(local.files.get('shared.css')).toBe('s{color:green}');
+
+        await syncManager.saveResolvedContent('shared.css', 's{merged}');
+        await expect(store.downloadFile('themes/shared.css')).resolves.toBe('s{merged}');
+    });
+
+    it('reports files with the same name in different cloud folders', async () => {
+        const store = new MemorySnippetStore({ 'a/shared.css': 'a{}', 'b/shared.css': 'b{}' });
+        const syncManager = createSyncManager(store);
+
+        const plan = await syncManager.buildSyncPlan('bidirectional');
+        const result = await syncManager.syncFromCloud();
+
+        expect(plan.actions.find(action => action.filename === 'shared.css')).toMatchObject({
+            type: 'conflict',
+            reason: expect.stringContaining('a/shared.css、b/shared.css')
+        });
+        expect(result.conflicts).toEqual(['shared.css']);
+        expect(local.files.get('shared.css')).toBe('s{}');
+        await expect(syncManager.getConflictVersions('shared.css')).rejects.toThrow('云端有多个同名文件');
+        await expect(syncManager.resolveConflict('shared.css', 'local')).resolves.toBe(false);
+        await expect(store.downloadFile('a/shared.css')).resolves.toBe('a{}');
+    });
+
+    it('keeps state recorded before stores were tracked', async () => {
+        settings.syncState = { 'shared.css': { hash: '', content: 's{}', syncedAt: 0 } };
+
+        expect(syncState.getBase('shared.css')).not.toBeNull();
+        expect(settings.syncStateScope).toBe(scope);
+    });
+});
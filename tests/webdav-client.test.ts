@@ -0,0 +1,188 @@
+import { WebDAVClient } from '../src/webdav-client';
+import { CacheManager } from '../src/utils/cache-manager';
+import { mockRequestUrl, MockRequest } from './helpers/mock-server';
+
+const ROOT = '/remote.php/dav/files/me/snippets/';
+
+interface StoredFile {
+    content: string;
+    version: number;
+    lastModified?: string;
+}
+
+/**
+ * 模拟 WebDAV 服务器：PROPFIND 返回 multistatus，PUT/DELETE 按 If-Match 做强比较，不匹配时返回 412
+ * weak 为 true 时只返回弱 ETag，与 Apache mod_dav 等服务器的行为一致（弱 ETag 永远无法通过 If-Match）
+ */
+function createWebDAVServer(files: Record<string, string | StoredFile>, options: { weak?: boolean } = {}) {
+    const state = new Map<string, StoredFile>(Object.entries(files).map(([path, file]) => [
+        path,
+        typeof file === 'string' ? { content: file, version: 1, lastModified: 'Mon, 01 Jan 2024 00:00:00 GMT' } : file
+    ]));
+    const hooks: { beforeWrite?: () => void } = {};
+
+    const etagOf = (path: string) => {
+        const tag = `"${path}-${state.get(path)!.version}"`;
+        return options.weak ? `W/${tag}` : tag;
+    };
+
+    const propResponse = (href: string, path: string | null) => {
+        const file = path === null ? undefined : state.get(path);
+        const props = file
+            ? `<d:resourcetype/><d:getetag>${etagOf(path!)}</d:getetag>` +
+                `<d:getcontentlength>${file.content.length}</d:getcontentlength>` +
+                (file.lastModified !== undefined ? `<d:getlastmodified>${file.lastModified}</d:getlastmodified>` : '')
+            : '<d:resourcetype><d:collection/></d:resourcetype>';
+        return `<d:response><d:href>${href}</d:href><d:propstat><d:prop>${props}</d:prop></d:propstat></d:response>`;
+    };
+
+    const requests = mockRequestUrl((request: MockRequest) => {
+        const path = decodeURIComponent(new URL(request.url).pathname.slice(ROOT.length));
+
+        if (request.method === 'PROPFIND') {
+            if (request.headers['depth'] === '0' && state.has(path)) {
+                return { status: 207, body: `<d:multistatus xmlns:d="DAV:">${propResponse(ROOT + path, path)}</d:multistatus>` };
+            }
+            const folder = path.replace(/\/$/, '');
+            const prefix = folder ? `${folder}/` : '';
+            const children = new Set<string>();
+            const blocks = [propResponse(ROOT + prefix, null)];
+            for (const filePath of state.keys()) {
+                if (!filePath.startsWith(prefix)) {
+                    continue;
+                }
+                const [child, ...rest] = filePath.slice(prefix.length).split('/');
+                if (rest.length > 0) {
+                    if (!children.has(child)) {
+                        children.add(child);
+                        blocks.push(propResponse(`${ROOT}${prefix}${child}/`, null));
+                    }
+                } else {
+                    blocks.push(propResponse(ROOT + filePath, filePath));
+                }
+            }
+            return { status: 207, body: `<d:multistatus xmlns:d="DAV:">${blocks.join('')}</d:multistatus>` };
+        }
+        if (request.method === 'GET') {
+            return state.has(path)
+                ? { body: state.get(path)!.content, headers: { etag: etagOf(path) } }
+                : undefined;
+        }
+        if (request.method === 'PUT' || request.method === 'DELETE') {
+            hooks.beforeWrite?.();
+            const ifMatch = request.headers['if-match'];
+            // If-Match 使用强比较，弱 ETag 不会匹配任何值
+            if (ifMatch && (!state.has(path) || options.weak || ifMatch !== etagOf(path))) {
+                return { status: 412 };
+            }
+            if (request.method === 'DELETE') {
+                return state.delete(path) ? { status: 204 } : undefined;
+            }
+            const previous = state.get(path);
+            state.set(path, { content: request.body || '', version: (previous?.version || 0) + 1 });
+            return { status: previous ? 204 : 201, headers: { etag: etagOf(path) } };
+        }
+        if (request.method === 'MKCOL') {
+            return { status: 405 };
+        }
+        return undefined;
+    });
+
+    return { state, requests, hooks };
+}
+
+describe('WebDAVClient', () => {
+    let client: WebDAVClient;
+
+    beforeEach(() => {
+        CacheManager.getInstance().clearAll();
+        client = new WebDAVClient(`https://dav.example.com${ROOT}`, 'me', 'secret');
+    });
+
+    it('lists .css files in subfolders with ETags and modification times', async () => {
+        createWebDAVServer({ 'a.css': 'a{}', 'themes/dark.css': 'body{}', 'notes.txt': 'x' });
+
+        const files = await client.listFiles('', true);
+
+        expect(files.map(file => [file.path, file.name, file.sha, file.size, file.lastModified])).toEqual([
+            ['a.css', 'a.css', 'a.css-1', 3, '2024-01-01T00:00:00.000Z'],
+            ['themes/dark.css', 'dark.css', 'themes/dark.css-1', 6, '2024-01-01T00:00:00.000Z']
+        ]);
+    });
+
+    it('keeps listing files whose modification time is missing or unparsable', async () => {
+        createWebDAVServer({
+            'a.css': { content: 'a{}', version: 1, lastModified: 'not a date' },
+            'b.css': { content: 'b{}', version: 1 }
+        });
+
+        const files = await client.listFiles('', true);
+
+        expect(files.map(file => [file.path, file.lastModified])).toEqual([['a.css', ''], ['b.css', '']]);
+    });
+
+    it('downloads content with basic auth and reuses the cache while the ETag is unchanged', async () => {
+        const { requests } = createWebDAVServer({ 'themes/dark.css': 'body{}' });
+
+        await client.listFiles();
+        await expect(client.downloadFile('themes/dark.css')).resolves.toBe('body{}');
+        await expect(client.downloadFile('themes/dark.css')).resolves.toBe('body{}');
+
+        const gets = requests.filter(request => request.method === 'GET');
+        expect(gets).toHaveLength(1);
+        expect(gets[0].headers['authorization']).toBe(`Basic ${btoa('me:secret')}`);
+    });
+
+    it('uploads and deletes files with If-Match on known files', async () => {
+        const { state, requests } = createWebDAVServer({ 'a.css': 'a{}', 'old.css': 'o{}' });
+
+        await client.listFiles();
+        await client.uploadFile('a.css', 'a{color:red}');
+        await client.uploadFile('themes/new.css', 'n{}');
+        await client.deleteFile('old.css');
+
+        expect([...state.keys()]).toEqual(['a.css', 'themes/new.css']);
+        expect(state.get('a.css')!.content).toBe('a{color:red}');
+        const writes = requests.filter(request => request.method === 'PUT' || request.method === 'DELETE');
+        expect(writes.map(request => request.headers['if-match'])).toEqual(['"a.css-1"', undefined, '"old.css-1"']);
+    });
+
+    it('fails with a conflict and rolls back earlier writes when a file changed on the server', async () => {
+        const { state, hooks } = createWebDAVServer({ 'a.css': 'a{}', 'b.css': 'b{}' });
+        await client.listFiles();
+        hooks.beforeWrite = () => {
+            if (state.get('b.css')!.version === 1) {
+                state.set('b.css', { content: 'b{changed:elsewhere}', version: 2 });
+            }
+        };
+
+        await expect(client.commitChanges([
+            { path: 'a.css', action: 'update', content: 'a{mine}' },
+            { path: 'b.css', action: 'update', content: 'b{mine}' }
+        ])).rejects.toThrow('云端文件已被其他设备修改');
+
+        expect(state.get('a.css')!.content).toBe('a{}');
+        expect(state.get('b.css')!.content).toBe('b{changed:elsewhere}');
+    });
+
+    it('checks weak ETags with PROPFIND instead of sending them as If-Match', async () => {
+        const { state, requests } = createWebDAVServer({ 'a.css': 'a{}' }, { weak: true });
+
+        await client.listFiles();
+        await client.uploadFile('a.css', 'a{mine}');
+
+        expect(state.get('a.css')!.content).toBe('a{mine}');
+        const put = requests.find(request => request.method === 'PUT')!;
+        expect(put.headers['if-match']).toBeUndefined();
+        expect(requests.some(request => request.method === 'PROPFIND' && request.headers['depth'] === '0')).toBe(true);
+    });
+
+    it('reports a conflict when a file with a weak ETag changed on the server', async () => {
+        const { state } = createWebDAVServer({ 'a.css': 'a{}' }, { weak: true });
+        await client.listFiles();
+        state.set('a.css', { content: 'a{changed:elsewhere}', version: 2 });
+
+        await expect(client.deleteFile('a.css')).rejects.toThrow('云端文件已被其他设备修改');
+        expect(state.get('a.css')!.content).toBe('a{changed:elsewhere}');
+    });
+});